@@ -1,7 +1,24 @@
-import { useState } from 'react';
+import { useRef, useState } from 'react';
 import { ko } from 'date-fns/locale';
-import DateRangePicker, { type PresetRange, type PresetDate } from './components/DateRangePicker';
+import { addDays, format, startOfToday } from 'date-fns';
+import DateRangePicker, {
+  type DateRangePickerHandle,
+  type DayMetadata,
+  type PresetRange,
+  type PresetDate
+} from './components/DateRangePicker';
 import type { DateRange } from './types';
+import { holidayCalendars } from './holidays';
+import { lastNBusinessDays, lastNDays, periodToDate, previousPeriod } from './presets';
+
+// Nightly prices for the booking demo, cheaper on weekdays
+const nightlyPrices: Record<string, DayMetadata> = Object.fromEntries(
+  Array.from({ length: 90 }, (_, i) => {
+    const day = addDays(startOfToday(), i);
+    const weekend = day.getDay() === 5 || day.getDay() === 6;
+    return [format(day, 'yyyy-MM-dd'), { label: `$${weekend ? 180 : 120}` }];
+  })
+);
 
 const presets: PresetRange[] = [
   {
@@ -57,6 +74,22 @@ const presets: PresetRange[] = [
   }
 ];
 
+// Reporting presets counting Monday–Friday business days and US holidays
+const businessOptions = { weekStartsOn: 1, holidays: holidayCalendars.US } as const;
+const reportingPresets: PresetRange[] = [
+  lastNDays(7),
+  lastNBusinessDays(5, businessOptions),
+  previousPeriod('week', {
+    ...businessOptions,
+    businessDays: true,
+    label: 'Previous week (Mon–Fri)'
+  }),
+  periodToDate('month'),
+  periodToDate('quarter'),
+  periodToDate('year'),
+  previousPeriod('quarter')
+];
+
 const singlePresets: PresetDate[] = [
   { label: '오늘', date: () => new Date() },
   {
@@ -87,6 +120,13 @@ const singlePresets: PresetDate[] = [
 
 const App = () => {
   const [range, setRange] = useState<DateRange>({ startDate: null, endDate: null });
+  const tourPickerRef = useRef<DateRangePickerHandle>(null);
+  const [isoInterval, setIsoInterval] = useState('2026-10-01/2026-10-07');
+  const [submittedForm, setSubmittedForm] = useState('');
+  const [eventLog, setEventLog] = useState<string[]>([]);
+  // Newest first, trimmed so the demo stays short
+  const logEvent = (entry: string) => setEventLog((log) => [entry, ...log].slice(0, 8));
+  const [utcRange, setUtcRange] = useState<DateRange>({ startDate: null, endDate: null });
   const [rangeWithClear, setRangeWithClear] = useState<DateRange>({
     startDate: new Date(2026, 0, 5),
     endDate: new Date(2026, 0, 15)
@@ -107,6 +147,22 @@ const App = () => {
     startDate: new Date(2026, 0, 5),
     endDate: new Date(2026, 0, 20)
   });
+  const [dateTimeRange, setDateTimeRange] = useState<DateRange>({
+    startDate: new Date(2026, 9, 1, 8, 0),
+    endDate: new Date(2026, 9, 3, 17, 30)
+  });
+  const [reportWeeks, setReportWeeks] = useState<DateRange>({ startDate: null, endDate: null });
+  const [reportQuarters, setReportQuarters] = useState<DateRange>({
+    startDate: null,
+    endDate: null
+  });
+  const [shiftDays, setShiftDays] = useState<Date[]>([]);
+  const [blackoutRanges, setBlackoutRanges] = useState<DateRange[]>([]);
+  const [birthDate, setBirthDate] = useState<DateRange>({ startDate: null, endDate: null });
+  const [dashboardRange, setDashboardRange] = useState<DateRange>({
+    startDate: null,
+    endDate: null
+  });
   const [rangeFromToApply, setRangeFromToApply] = useState<DateRange>({
     startDate: new Date(2026, 0, 10),
     endDate: new Date(2026, 0, 25)
@@ -194,6 +250,20 @@ const App = () => {
         />
       </section>
 
+      <section style={{ marginBottom: '3rem' }}>
+        <h2>Date Time Range Picker</h2>
+        <DateRangePicker
+          value={dateTimeRange}
+          onChange={setDateTimeRange}
+          presetRanges={presets}
+          timePicker
+          timePickerIncrement={15}
+          autoApply={false}
+          editable
+          triggerWidth={360}
+        />
+      </section>
+
       <section style={{ marginBottom: '3rem' }}>
         <h2>Single Date Picker with Presets (Auto Apply)</h2>
         <DateRangePicker
@@ -266,6 +336,259 @@ const App = () => {
         />
       </section>
 
+      <section style={{ marginBottom: '3rem' }}>
+        <h2>Week Granularity</h2>
+        <DateRangePicker
+          value={reportWeeks}
+          onChange={setReportWeeks}
+          granularity="week"
+          showPresets={false}
+          triggerWidth={320}
+        />
+      </section>
+
+      <section style={{ marginBottom: '3rem' }}>
+        <h2>ISO Week Numbers (Monday Start)</h2>
+        <DateRangePicker
+          value={reportWeeks}
+          onChange={setReportWeeks}
+          weekStartsOn={1}
+          weekNumbers="iso"
+          triggerWidth={320}
+        />
+      </section>
+
+      <section style={{ marginBottom: '3rem' }}>
+        <h2>Quarter Granularity</h2>
+        <DateRangePicker
+          value={reportQuarters}
+          onChange={setReportQuarters}
+          granularity="quarter"
+          showPresets={false}
+          triggerWidth={320}
+        />
+      </section>
+
+      <section style={{ marginBottom: '3rem' }}>
+        <h2>Multiple Dates (up to 5)</h2>
+        <DateRangePicker
+          mode="multiple"
+          value={shiftDays}
+          onChange={setShiftDays}
+          maxSelections={5}
+          showClearButton
+          triggerWidth={320}
+        />
+      </section>
+
+      <section style={{ marginBottom: '3rem' }}>
+        <h2>Multiple Ranges</h2>
+        <DateRangePicker
+          mode="multiRange"
+          value={blackoutRanges}
+          onChange={setBlackoutRanges}
+          showClearButton
+          triggerWidth={320}
+        />
+      </section>
+
+      <section style={{ marginBottom: '3rem' }}>
+        <h2>Portal Inside a Clipping Container (Top End)</h2>
+        <div
+          style={{
+            overflow: 'hidden',
+            padding: '1rem',
+            border: '1px solid #e2e8f0',
+            borderRadius: '0.5rem',
+            display: 'flex',
+            justifyContent: 'flex-end'
+          }}
+        >
+          <DateRangePicker
+            value={range}
+            onChange={setRange}
+            presetRanges={presets}
+            appendTo="body"
+            placement="top-end"
+          />
+        </div>
+      </section>
+
+      <section style={{ marginBottom: '3rem' }}>
+        <h2>Mobile Bottom Sheet (Forced)</h2>
+        <DateRangePicker
+          value={range}
+          onChange={setRange}
+          presetRanges={presets}
+          mobile
+          autoApply={false}
+        />
+      </section>
+
+      <section style={{ marginBottom: '3rem' }}>
+        <h2>Birth Date (Click the Title to Jump)</h2>
+        <DateRangePicker
+          value={birthDate}
+          onChange={setBirthDate}
+          singleDatePicker
+          showPresets={false}
+          minDate={new Date(1900, 0, 1)}
+          maxDate={new Date()}
+        />
+      </section>
+
+      <section style={{ marginBottom: '3rem' }}>
+        <h2>Three-Month Planning View</h2>
+        <DateRangePicker value={range} onChange={setRange} numberOfMonths={3} showPresets={false} />
+      </section>
+
+      <section style={{ marginBottom: '3rem' }}>
+        <h2>Compact Single-Month Range</h2>
+        <DateRangePicker
+          value={range}
+          onChange={setRange}
+          numberOfMonths={1}
+          showPresets={false}
+          pagingMode="independent"
+        />
+      </section>
+
+      <section style={{ marginBottom: '3rem' }}>
+        <h2>Booking with Nightly Prices</h2>
+        <DateRangePicker
+          value={range}
+          onChange={setRange}
+          showPresets={false}
+          minDate={startOfToday()}
+          dayMetadata={nightlyPrices}
+        />
+      </section>
+
+      <section style={{ marginBottom: '3rem' }}>
+        <h2>ISO Interval Value (URL Query Style)</h2>
+        <DateRangePicker value={isoInterval} onChange={setIsoInterval} valueFormat="isoInterval" />
+        <p>?range={isoInterval || '(empty)'}</p>
+      </section>
+
+      <section style={{ marginBottom: '3rem' }}>
+        <h2>UTC Server Dates</h2>
+        <DateRangePicker
+          value={utcRange}
+          onChange={setUtcRange}
+          timeZone="UTC"
+          timePicker
+          displayFormat="yyyy-MM-dd HH:mm 'UTC'"
+        />
+        <p>
+          onChange: {utcRange.startDate?.toISOString() ?? '-'} ~{' '}
+          {utcRange.endDate?.toISOString() ?? '-'}
+        </p>
+      </section>
+
+      <section style={{ marginBottom: '3rem' }}>
+        <h2>Business-Day Reporting Presets</h2>
+        <DateRangePicker
+          value={range}
+          onChange={setRange}
+          presetRanges={reportingPresets}
+          weekStartsOn={1}
+          holidays={holidayCalendars.US}
+        />
+      </section>
+
+      <section style={{ marginBottom: '3rem' }}>
+        <h2>US Holidays and Weekends</h2>
+        <DateRangePicker
+          value={range}
+          onChange={setRange}
+          showPresets={false}
+          holidays={holidayCalendars.US}
+          highlightWeekends
+        />
+      </section>
+
+      <section style={{ marginBottom: '3rem' }}>
+        <h2>Uncontrolled with Ref Controls</h2>
+        <DateRangePicker
+          ref={tourPickerRef}
+          defaultValue={{ startDate: new Date(2026, 0, 5), endDate: new Date(2026, 0, 9) }}
+        />
+        <div style={{ display: 'flex', gap: '0.5rem', marginTop: '0.5rem' }}>
+          <button
+            type="button"
+            onClick={() => {
+              tourPickerRef.current?.open();
+              tourPickerRef.current?.navigateTo(new Date(2026, 11, 1));
+            }}
+          >
+            Open at December
+          </button>
+          <button type="button" onClick={() => tourPickerRef.current?.clear()}>
+            Clear
+          </button>
+        </div>
+      </section>
+
+      <section style={{ marginBottom: '3rem' }}>
+        <h2>Native Form Submission</h2>
+        <form
+          onSubmit={(event) => {
+            event.preventDefault();
+            const fields = [...new FormData(event.currentTarget)].map(
+              ([key, value]) => `${key}=${value}`
+            );
+            setSubmittedForm(fields.join(', '));
+          }}
+          style={{ display: 'flex', gap: '0.5rem', alignItems: 'flex-start', flexWrap: 'wrap' }}
+        >
+          <DateRangePicker name="stay" startName="checkIn" endName="checkOut" required />
+          <DateRangePicker
+            name="bookedOn"
+            singleDatePicker
+            readOnly
+            defaultValue={{ startDate: '2026-10-01', endDate: null }}
+            valueFormat="isoDate"
+          />
+          <button type="submit">Submit</button>
+          <button type="reset">Reset</button>
+        </form>
+        {submittedForm && <p>Submitted: {submittedForm}</p>}
+      </section>
+
+      <section style={{ marginBottom: '3rem' }}>
+        <h2>Interaction Events</h2>
+        <DateRangePicker
+          defaultValue={{ startDate: null, endDate: null }}
+          autoApply={false}
+          showClearButton
+          onOpen={() => logEvent('open')}
+          onClose={(reason) => logEvent(`close (${reason})`)}
+          onStartDateSelect={(date) => logEvent(`start ${format(date, 'yyyy-MM-dd')}`)}
+          onViewChange={(months) =>
+            logEvent(`view ${months.map((month) => format(month, 'MMM yyyy')).join(', ')}`)
+          }
+          onPresetSelect={(preset) => logEvent(`preset "${preset.label}"`)}
+          onCancel={() => logEvent('cancel')}
+          onClear={() => logEvent('clear')}
+        />
+        <ol style={{ marginTop: '0.5rem' }}>
+          {eventLog.map((entry, i) => (
+            <li key={i}>{entry}</li>
+          ))}
+        </ol>
+      </section>
+
+      <section style={{ marginBottom: '3rem' }}>
+        <h2>Inline Calendar (Apply / Cancel)</h2>
+        <DateRangePicker
+          value={dashboardRange}
+          onChange={setDashboardRange}
+          presetRanges={presets}
+          inline
+          autoApply={false}
+        />
+      </section>
+
       <section style={{ marginBottom: '3rem' }}>
         <h2>Korean Locale Example (한국어)</h2>
         <DateRangePicker
@@ -0,0 +1,907 @@
+import { act, fireEvent, render, screen } from '@testing-library/react';
+import { createRef, useState, type ComponentProps } from 'react';
+import { de } from 'date-fns/locale';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { holidayCalendars } from '../holidays';
+import { periodToDate } from '../presets';
+import type { DateRange } from '../types';
+import DateRangePicker, { type DateRangePickerHandle } from './DateRangePicker';
+
+// Options shared by every selection mode, for harnesses that own the value
+type PickerProps = Partial<
+  Omit<
+    ComponentProps<typeof DateRangePicker>,
+    'mode' | 'valueFormat' | 'value' | 'defaultValue' | 'onChange'
+  >
+>;
+
+const emptyRange: DateRange = { startDate: null, endDate: null };
+
+const days = (range: DateRange) =>
+  `${range.startDate?.toDateString()} - ${range.endDate?.toDateString()}`;
+
+// A range picker holding its own value, printed for assertions
+const RangeHarness = ({
+  initial = emptyRange,
+  ...props
+}: PickerProps & { initial?: DateRange }) => {
+  const [value, setValue] = useState(initial);
+  return (
+    <>
+      <DateRangePicker {...props} value={value} onChange={setValue} />
+      <span data-testid="value">{days(value)}</span>
+    </>
+  );
+};
+
+const renderRange = (initial: DateRange, props: PickerProps = {}) =>
+  render(<RangeHarness initial={initial} {...props} />);
+
+const selected = () => screen.getByTestId('value').textContent;
+
+// Day cells repeat in the muted overflow of the neighbouring month; take the month's own
+const cell = (name: RegExp) => screen.getAllByRole('gridcell', { name }).at(-1) as HTMLElement;
+
+const trigger = () => screen.getByRole('button', { name: /~/ });
+
+const january = { startDate: new Date(2026, 0, 5), endDate: new Date(2026, 0, 10) };
+
+describe('DateRangePicker', () => {
+  describe('keyboard navigation', () => {
+    it('moves through the grid and selects with Enter and Space', () => {
+      renderRange(january);
+      trigger().focus();
+      fireEvent.keyDown(trigger(), { key: 'ArrowDown' });
+      expect(document.activeElement).toHaveTextContent('5');
+      fireEvent.keyDown(document.activeElement!, { key: 'PageDown' });
+      fireEvent.keyDown(document.activeElement!, { key: 'PageDown' });
+      expect(screen.getAllByRole('grid').map((grid) => grid.getAttribute('aria-label'))).toEqual([
+        'February 2026',
+        'March 2026'
+      ]);
+      fireEvent.keyDown(document.activeElement!, { key: 'Enter' });
+      fireEvent.keyDown(document.activeElement!, { key: 'ArrowRight' });
+      fireEvent.keyDown(document.activeElement!, { key: 'End' });
+      fireEvent.keyDown(document.activeElement!, { key: ' ' });
+      expect(selected()).toBe('Thu Mar 05 2026 - Sat Mar 07 2026');
+      expect(document.activeElement).toBe(trigger());
+    });
+  });
+
+  describe('accessibility', () => {
+    it('links the trigger to its dialog and announces the selection', () => {
+      renderRange(january);
+      expect(trigger()).toHaveAttribute('aria-expanded', 'false');
+      fireEvent.click(trigger());
+      expect(trigger()).toHaveAttribute('aria-expanded', 'true');
+      expect(screen.getByRole('dialog')).toHaveAttribute(
+        'id',
+        trigger().getAttribute('aria-controls')
+      );
+      expect(cell(/January 5th, 2026, start date/)).toHaveAttribute('aria-selected', 'true');
+      fireEvent.click(cell(/January 20th, 2026$/));
+      expect(screen.getByRole('status')).toHaveTextContent(
+        'Start date January 20th, 2026 selected, choose end date'
+      );
+    });
+  });
+
+  describe('time picker', () => {
+    it('keeps the chosen times across day clicks and accepts typed times', () => {
+      renderRange(
+        { startDate: new Date(2026, 9, 1, 8, 0), endDate: new Date(2026, 9, 3, 17, 30) },
+        { timePicker: true, timePickerIncrement: 15, editable: true }
+      );
+      const input = screen.getByRole('textbox');
+      expect(input).toHaveValue('2026-10-01 08:00 ~ 2026-10-03 17:30');
+      fireEvent.click(input);
+      fireEvent.click(cell(/October 5th, 2026$/));
+      fireEvent.click(cell(/October 7th, 2026$/));
+      expect(input).toHaveValue('2026-10-05 08:00 ~ 2026-10-07 17:30');
+      fireEvent.change(screen.getAllByRole('combobox', { name: 'Hour' })[1], {
+        target: { value: '20' }
+      });
+      expect(input).toHaveValue('2026-10-05 08:00 ~ 2026-10-07 20:30');
+      fireEvent.change(input, { target: { value: '2026-10-01 09:15 ~ 2026-10-02 10:45' } });
+      fireEvent.blur(input);
+      expect(input).toHaveValue('2026-10-01 09:15 ~ 2026-10-02 10:45');
+    });
+  });
+
+  describe('disabled dates', () => {
+    it('clamps a clicked range at a disabled date or weekday', () => {
+      renderRange(emptyRange, {
+        disabledDates: [new Date(2026, 9, 10)],
+        disabledDaysOfWeek: [0],
+        disabledRangePolicy: 'clamp'
+      });
+      fireEvent.click(screen.getByRole('button', { name: /Start/ }));
+      while (!screen.queryByRole('grid', { name: 'October 2026' })) {
+        fireEvent.click(screen.getAllByRole('button', { name: 'Next month' })[0]);
+      }
+      expect(cell(/October 11th, 2026/)).toHaveAttribute('aria-disabled', 'true');
+      fireEvent.click(cell(/October 6th, 2026/));
+      fireEvent.click(cell(/October 14th, 2026/));
+      expect(selected()).toBe('Tue Oct 06 2026 - Fri Oct 09 2026');
+    });
+
+    it('clamps a range picked backwards toward the day picked first', () => {
+      renderRange(january, { disabledDates: [new Date(2026, 0, 7)], disabledRangePolicy: 'clamp' });
+      fireEvent.click(trigger());
+      fireEvent.click(cell(/January 10th, 2026/));
+      fireEvent.click(cell(/January 5th, 2026/));
+      expect(selected()).toBe('Thu Jan 08 2026 - Sat Jan 10 2026');
+    });
+  });
+
+  describe('span limits', () => {
+    it('reports typed ranges over maxSpan and disables days beyond it', () => {
+      const violations: string[] = [];
+      renderRange(
+        { startDate: new Date(2026, 9, 1), endDate: new Date(2026, 9, 2) },
+        { maxSpan: 5, editable: true, onSpanViolation: ({ reason }) => violations.push(reason) }
+      );
+      const input = screen.getByRole('textbox');
+      fireEvent.change(input, { target: { value: '2026-10-01 ~ 2026-10-20' } });
+      fireEvent.blur(input);
+      expect(violations).toEqual(['maxSpan']);
+      fireEvent.click(input);
+      fireEvent.click(cell(/October 10th, 2026$/));
+      expect(cell(/October 16th, 2026$/)).toHaveAttribute('aria-disabled', 'true');
+      expect(cell(/October 14th, 2026$/)).not.toHaveAttribute('aria-disabled');
+      fireEvent.click(cell(/October 16th, 2026$/));
+      fireEvent.click(cell(/October 6th, 2026$/));
+      expect(selected()).toBe('Tue Oct 06 2026 - Sat Oct 10 2026');
+    });
+
+    it('disables presets longer than maxSpan', () => {
+      renderRange(emptyRange, { maxSpan: 7 });
+      fireEvent.click(trigger());
+      expect(screen.getByRole('button', { name: 'Last 7 days' })).toBeEnabled();
+      expect(screen.getByRole('button', { name: 'Last 30 days' })).toBeDisabled();
+    });
+  });
+
+  describe('typed input validation', () => {
+    it('flags invalid text and reverts it on blur', () => {
+      const errors: string[] = [];
+      renderRange(
+        { startDate: new Date(2026, 9, 1), endDate: new Date(2026, 9, 2) },
+        {
+          editable: true,
+          minDate: new Date(2026, 0, 1),
+          revertOnInvalid: true,
+          onValidationError: ({ reason, part }) => errors.push(`${reason}:${part}`)
+        }
+      );
+      const input = screen.getByRole('textbox');
+      fireEvent.change(input, { target: { value: '2025-10-01 ~ 2026-10-20' } });
+      fireEvent.keyDown(input, { key: 'Enter' });
+      expect(input).toHaveAttribute('aria-invalid', 'true');
+      expect(input).toHaveClass('drp-input--invalid');
+      fireEvent.blur(input);
+      expect(input).toHaveValue('2026-10-01 ~ 2026-10-02');
+      fireEvent.change(input, { target: { value: '2026-10-01 2026-10-20' } });
+      fireEvent.blur(input);
+      expect(errors).toEqual(['beforeMin:start', 'separator:undefined']);
+      expect(input).toHaveValue('2026-10-01 ~ 2026-10-02');
+      expect(input).not.toHaveAttribute('aria-invalid');
+    });
+
+    it('reports text that is not two dates once across Enter and blur', () => {
+      const errors: string[] = [];
+      renderRange(emptyRange, {
+        editable: true,
+        onValidationError: ({ reason }) => errors.push(reason)
+      });
+      const input = screen.getByRole('textbox');
+      fireEvent.change(input, { target: { value: 'garbage' } });
+      fireEvent.keyDown(input, { key: 'Enter' });
+      fireEvent.blur(input);
+      expect(errors).toEqual(['unparsable']);
+    });
+  });
+
+  describe('typed input parsing', () => {
+    it('accepts other formats, separators and preset labels', () => {
+      renderRange(
+        { startDate: new Date(2026, 9, 1), endDate: new Date(2026, 9, 2) },
+        { editable: true, rangeSeparator: ' to ' }
+      );
+      const input = screen.getByRole('textbox');
+      expect(input).toHaveValue('2026-10-01 to 2026-10-02');
+      const typeAndBlur = (text: string) => {
+        fireEvent.change(input, { target: { value: text } });
+        fireEvent.blur(input);
+      };
+      typeAndBlur('2026/10/01 - 2026/10/05');
+      expect(input).toHaveValue('2026-10-01 to 2026-10-05');
+      typeAndBlur('Oct 3 2026 ~ Oct 9, 2026');
+      expect(input).toHaveValue('2026-10-03 to 2026-10-09');
+      typeAndBlur('2026-10-04T10:00:00 to 20261011');
+      expect(input).toHaveValue('2026-10-04 to 2026-10-11');
+      // The `to` inside "October" is not a separator
+      typeAndBlur('October 5, 2026 ~ November 9, 2026');
+      expect(input).toHaveValue('2026-10-05 to 2026-11-09');
+      typeAndBlur('October 5, 2026 to October 9, 2026');
+      expect(input).toHaveValue('2026-10-05 to 2026-10-09');
+      typeAndBlur('Last 30 days');
+      expect((input as HTMLInputElement).value).toMatch(/^\d{4}-\d\d-\d\d to \d{4}-\d\d-\d\d$/);
+    });
+  });
+
+  describe('masked input', () => {
+    it('edits dates segment by segment and moves on to the end date', () => {
+      renderRange(
+        { startDate: new Date(2026, 9, 1), endDate: new Date(2026, 9, 2) },
+        { editable: true, maskedInput: true }
+      );
+      const segments = () => screen.getAllByRole('spinbutton');
+      expect(segments().map((segment) => segment.textContent)).toEqual([
+        '2026',
+        '10',
+        '01',
+        '2026',
+        '10',
+        '02'
+      ]);
+      segments()[2].focus();
+      fireEvent.keyDown(segments()[2], { key: 'ArrowUp' });
+      expect(selected()).toBe('Fri Oct 02 2026 - Fri Oct 02 2026');
+      fireEvent.keyDown(segments()[2], { key: '0' });
+      fireEvent.keyDown(segments()[2], { key: '5' });
+      expect(document.activeElement).toBe(segments()[3]);
+      for (const key of ['2', '0', '2', '7', '/', '0', '3']) {
+        fireEvent.keyDown(document.activeElement!, { key });
+      }
+      expect(selected()).toBe('Fri Oct 02 2026 - Sun Oct 03 2027');
+    });
+  });
+
+  describe('multiple selection modes', () => {
+    const dayCell = (date: number) =>
+      screen
+        .getAllByRole('gridcell', { name: new RegExp(` ${date}(st|nd|rd|th), 20`) })
+        .find((day) => !day.className.includes('muted')) as HTMLElement;
+
+    it('toggles single dates up to maxSelections', () => {
+      const Harness = () => {
+        const [dates, setDates] = useState([new Date(2026, 9, 1)]);
+        return (
+          <>
+            <DateRangePicker mode="multiple" value={dates} onChange={setDates} maxSelections={3} />
+            <span data-testid="value">{dates.map((date) => date.getDate()).join(',')}</span>
+          </>
+        );
+      };
+      render(<Harness />);
+      fireEvent.click(screen.getByRole('button', { name: '1 date selected' }));
+      for (const date of [3, 5, 7, 1, 9]) fireEvent.click(dayCell(date));
+      expect(selected()).toBe('3,5,9');
+      expect(screen.getByRole('button', { name: '3 dates selected' })).toBeInTheDocument();
+    });
+
+    it('adds ranges and removes the one clicked inside', () => {
+      const Harness = () => {
+        const [ranges, setRanges] = useState<DateRange[]>([]);
+        return (
+          <>
+            <DateRangePicker mode="multiRange" value={ranges} onChange={setRanges} />
+            <span data-testid="value">
+              {ranges.map((r) => `${r.startDate?.getDate()}-${r.endDate?.getDate()}`).join(',')}
+            </span>
+          </>
+        );
+      };
+      render(<Harness />);
+      fireEvent.click(screen.getByRole('button', { name: 'Select Date' }));
+      for (const date of [10, 12, 3, 1, 11, 20, 22]) fireEvent.click(dayCell(date));
+      expect(selected()).toBe('1-3,20-22');
+    });
+  });
+
+  describe('period granularity', () => {
+    const october14 = { startDate: new Date(2026, 9, 14), endDate: new Date(2026, 9, 14) };
+
+    it('selects whole weeks and previews the hovered week', () => {
+      renderRange(october14, { granularity: 'week' });
+      fireEvent.click(screen.getByRole('button', { name: '2026-W42' }));
+      const day = (date: number) =>
+        screen.getAllByRole('gridcell', {
+          name: new RegExp(`October ${date}(st|nd|rd|th), 2026`)
+        })[0];
+      fireEvent.mouseEnter(day(21));
+      expect(day(24).closest('.drp-calendar__row')).toHaveClass('drp-calendar__row--hover');
+      fireEvent.click(day(7));
+      fireEvent.click(day(21));
+      expect(selected()).toBe('Sun Oct 04 2026 - Sat Oct 24 2026');
+      expect(screen.getByRole('button', { name: '2026-W41 ~ 2026-W43' })).toBeInTheDocument();
+    });
+
+    it('selects quarters from the quarter grid', () => {
+      renderRange(october14, { granularity: 'quarter' });
+      fireEvent.click(screen.getByRole('button', { name: '2026-Q4' }));
+      fireEvent.click(screen.getByRole('gridcell', { name: /2nd quarter 2026/ }));
+      fireEvent.click(screen.getByRole('gridcell', { name: /3rd quarter 2026/ }));
+      expect(screen.getByRole('button', { name: '2026-Q2 ~ 2026-Q3' })).toBeInTheDocument();
+      expect(selected()).toBe('Wed Apr 01 2026 - Wed Sep 30 2026');
+    });
+
+    it('pages the year grid in blocks of twelve', () => {
+      renderRange(october14, { granularity: 'year' });
+      fireEvent.click(screen.getByRole('button', { name: '2026' }));
+      expect(screen.getByText('2016 – 2027')).toBeInTheDocument();
+    });
+
+    it('reads typed weeks as whole periods', () => {
+      renderRange(october14, { granularity: 'week', editable: true });
+      const input = screen.getByRole('textbox');
+      expect(input).toHaveValue('2026-W42');
+      fireEvent.change(input, { target: { value: '2026-W10 ~ 2026-W12' } });
+      fireEvent.blur(input);
+      expect(input).toHaveValue('2026-W10 ~ 2026-W12');
+      expect(selected()).toBe('Sun Mar 01 2026 - Sat Mar 21 2026');
+    });
+  });
+
+  describe('week start and week numbers', () => {
+    const october14 = { startDate: new Date(2026, 9, 14), endDate: new Date(2026, 9, 14) };
+    const headers = (count: number) =>
+      screen
+        .getAllByRole('columnheader')
+        .slice(0, count)
+        .map((header) => header.textContent);
+
+    it('starts weeks on Monday and selects a week from its number', () => {
+      renderRange(october14, { weekStartsOn: 1, weekNumbers: 'iso' });
+      fireEvent.click(trigger());
+      expect(headers(8)).toEqual(['Wk', 'Mo', 'Tu', 'We', 'Th', 'Fr', 'Sa', 'Su']);
+      fireEvent.click(screen.getAllByRole('rowheader', { name: 'Select week 42' })[0]);
+      expect(selected()).toBe('Mon Oct 12 2026 - Sun Oct 18 2026');
+    });
+
+    it('takes the first weekday from the locale', () => {
+      renderRange(october14, { weekNumbers: 'locale', locale: de });
+      fireEvent.click(trigger());
+      expect(headers(3)).toEqual(['Wk', 'Mo', 'Di']);
+    });
+
+    it('labels Sunday-start weeks by ISO week without splitting them', () => {
+      renderRange(october14, { granularity: 'week', weekNumbers: 'iso' });
+      expect(screen.getByRole('button', { name: '2026-W42' })).toBeInTheDocument();
+    });
+  });
+
+  describe('inline mode', () => {
+    it('stays open and settles the selection with Apply and Cancel', () => {
+      renderRange(january, { inline: true, autoApply: false });
+      expect(screen.queryByRole('button', { name: /~/ })).toBeNull();
+      expect(screen.getByRole('group', { name: 'Choose date range' })).toBeInTheDocument();
+      fireEvent.click(cell(/January 12/));
+      fireEvent.click(cell(/January 14/));
+      fireEvent.click(screen.getByRole('button', { name: 'Cancel' }));
+      expect(selected()).toBe('Mon Jan 05 2026 - Sat Jan 10 2026');
+      fireEvent.mouseDown(document.body);
+      fireEvent.keyUp(document, { key: 'Escape' });
+      fireEvent.click(cell(/January 12/));
+      fireEvent.click(cell(/January 14/));
+      fireEvent.click(screen.getByRole('button', { name: 'Apply' }));
+      expect(selected()).toBe('Mon Jan 12 2026 - Wed Jan 14 2026');
+      expect(screen.getByRole('button', { name: 'Apply' })).toBeInTheDocument();
+    });
+  });
+
+  describe('portal rendering', () => {
+    it('renders the popover into the body and still treats it as inside', () => {
+      render(
+        <div data-testid="box">
+          <RangeHarness initial={january} appendTo="body" placement="top-end" />
+        </div>
+      );
+      fireEvent.click(trigger());
+      const dialog = screen.getByRole('dialog');
+      expect(screen.getByTestId('box')).not.toContainElement(dialog);
+      expect(dialog.style.position).toBe('fixed');
+      const day = cell(/January 12/);
+      fireEvent.mouseDown(day);
+      fireEvent.click(day);
+      expect(screen.getByRole('dialog')).toBeInTheDocument();
+      fireEvent.mouseDown(document.body);
+      expect(screen.queryByRole('dialog')).toBeNull();
+    });
+  });
+
+  describe('mobile bottom sheet', () => {
+    it('lists twelve months and closes from the backdrop', () => {
+      const { container } = renderRange(january, { mobile: true });
+      fireEvent.click(trigger());
+      expect(screen.getAllByRole('grid')).toHaveLength(12);
+      const sheet = container.querySelector('.drp-modal-overlay--sheet') as HTMLElement;
+      expect(sheet).not.toBeNull();
+      fireEvent.click(cell(/January 20/));
+      fireEvent.click(cell(/June 3rd/));
+      expect(selected()).toBe('Tue Jan 20 2026 - Wed Jun 03 2026');
+      fireEvent.click(trigger());
+      fireEvent.click(screen.getByRole('button', { name: 'Next month' }));
+      expect(screen.getAllByRole('grid')[0]).toHaveAccessibleName('February 2026');
+      const last = cell(/January 31st, 2027/);
+      last.focus();
+      fireEvent.keyDown(last, { key: 'ArrowRight' });
+      expect(screen.getAllByRole('grid')[0]).toHaveAccessibleName('March 2026');
+      expect(document.activeElement).toHaveAccessibleName(/February 1st, 2027/);
+      fireEvent.click(container.querySelector('.drp-modal-overlay--sheet') as HTMLElement);
+      expect(screen.queryByRole('dialog')).toBeNull();
+    });
+  });
+
+  describe('month and year jump view', () => {
+    it('jumps to a year and month within minDate and maxDate', () => {
+      renderRange(january, {
+        singleDatePicker: true,
+        minDate: new Date(1985, 3, 10),
+        maxDate: new Date(2026, 11, 31)
+      });
+      fireEvent.click(screen.getByRole('button', { name: /2026-01-05/ }));
+      fireEvent.click(screen.getByRole('button', { name: /Choose month and year/ }));
+      expect(screen.getByRole('button', { name: '2026' })).toHaveFocus();
+      expect(screen.getByRole('button', { name: '2027' })).toBeDisabled();
+      expect(screen.getByRole('button', { name: 'Next years' })).toBeDisabled();
+      for (let page = 0; page < 4; page++) {
+        fireEvent.click(screen.getByRole('button', { name: 'Previous years' }));
+      }
+      expect(screen.getByRole('button', { name: 'Previous years' })).toBeDisabled();
+      expect(screen.getByRole('button', { name: '1984' })).toBeDisabled();
+      fireEvent.click(screen.getByRole('button', { name: '1985' }));
+      expect(screen.getByRole('button', { name: 'March' })).toBeDisabled();
+      fireEvent.click(screen.getByRole('button', { name: 'April' }));
+      expect(screen.getByRole('grid')).toHaveAccessibleName('April 1985');
+      fireEvent.click(cell(/April 20th, 1985/));
+      expect(selected()).toBe('Sat Apr 20 1985 - Sat Apr 20 1985');
+    });
+  });
+
+  describe('number of months', () => {
+    const months = () =>
+      screen
+        .getAllByRole('grid')
+        .map((grid) => grid.getAttribute('aria-label'))
+        .join(', ');
+    const nextButtons = () => screen.getAllByRole('button', { name: 'Next month' });
+
+    it('pages linked months together, following keyboard focus', () => {
+      renderRange(january, { numberOfMonths: 3 });
+      fireEvent.click(trigger());
+      expect(months()).toBe('January 2026, February 2026, March 2026');
+      expect(nextButtons()).toHaveLength(1);
+      fireEvent.click(nextButtons()[0]);
+      expect(months()).toBe('February 2026, March 2026, April 2026');
+      const day = cell(/April 30th/);
+      day.focus();
+      fireEvent.keyDown(day, { key: 'ArrowRight' });
+      expect(months()).toBe('March 2026, April 2026, May 2026');
+      expect(document.activeElement).toHaveAccessibleName(/May 1st/);
+    });
+
+    it('pages independent months one pane at a time', () => {
+      renderRange(january, { numberOfMonths: 3, pagingMode: 'independent' });
+      fireEvent.click(trigger());
+      expect(nextButtons()).toHaveLength(3);
+      expect(nextButtons()[0]).toBeDisabled();
+      fireEvent.click(nextButtons()[2]);
+      expect(months()).toBe('January 2026, February 2026, April 2026');
+      fireEvent.click(nextButtons()[1]);
+      expect(months()).toBe('January 2026, March 2026, April 2026');
+    });
+
+    it('selects a range across pages with a single month', () => {
+      renderRange(january, { numberOfMonths: 1 });
+      fireEvent.click(trigger());
+      expect(months()).toBe('January 2026');
+      fireEvent.click(cell(/January 20th/));
+      fireEvent.click(nextButtons()[0]);
+      fireEvent.click(cell(/February 3rd/));
+      expect(selected()).toBe('Tue Jan 20 2026 - Tue Feb 03 2026');
+    });
+  });
+
+  describe('custom day cells', () => {
+    const dayMetadata = {
+      '2026-01-01': { title: "New Year's Day", dot: 'red' },
+      '2026-01-07': { label: '$120' }
+    };
+
+    it('adds metadata and extra props to day cells', () => {
+      renderRange(january, {
+        dayMetadata,
+        getDayProps: (day, state) => ({
+          className: state.isWeekend ? 'weekend' : undefined,
+          title: state.inRange ? 'in range' : undefined,
+          'data-day': day.getDate()
+        })
+      });
+      fireEvent.click(trigger());
+      const newYear = cell(/January 1st, 2026, New Year's Day/);
+      expect(newYear).toHaveAttribute('title', "New Year's Day");
+      expect(newYear.querySelector('.drp-day__dot')).toHaveStyle({ background: 'red' });
+      const priced = cell(/January 7th, 2026, \$120/);
+      expect(priced).toHaveClass('drp-day--has-label');
+      expect(priced).toHaveAttribute('title', 'in range');
+      expect(priced).toHaveAttribute('data-day', '7');
+      expect(cell(/January 10th, 2026/)).toHaveClass('weekend');
+    });
+
+    it('replaces the cell content with renderDay', () => {
+      renderRange(january, {
+        renderDay: (day, state) =>
+          `${day.getDate()}${state.isStart ? 'S' : ''}${state.isEnd ? 'E' : ''}`
+      });
+      fireEvent.click(trigger());
+      expect(cell(/January 5th, 2026/)).toHaveTextContent('5S');
+      expect(cell(/January 10th, 2026/)).toHaveTextContent('10E');
+    });
+  });
+
+  describe('holidays and weekends', () => {
+    it('marks, names and disables holidays and highlights weekends', () => {
+      renderRange(january, {
+        holidays: holidayCalendars.US,
+        disableHolidays: true,
+        highlightWeekends: true,
+        weekendDays: [5, 6]
+      });
+      fireEvent.click(trigger());
+      const mlkDay = cell(/January 19th, 2026, Martin Luther King/);
+      expect(mlkDay).toHaveClass('drp-day--holiday');
+      expect(mlkDay).toHaveAttribute('title', 'Martin Luther King Jr. Day');
+      expect(mlkDay).toHaveAttribute('aria-disabled', 'true');
+      expect(mlkDay.querySelector('.drp-day__dot')).not.toBeNull();
+      expect(cell(/January 9th, 2026/)).toHaveClass('drp-day--weekend');
+      expect(cell(/January 11th, 2026/)).not.toHaveClass('drp-day--weekend');
+    });
+  });
+
+  describe('preset factories', () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('disables a preset with nothing to select today', () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      // Monday: a week to date without today is empty
+      vi.setSystemTime(new Date(2026, 9, 19, 10));
+      renderRange(emptyRange, {
+        presetRanges: [periodToDate('week', { weekStartsOn: 1, includeToday: false, label: 'WTD' })]
+      });
+      fireEvent.click(trigger());
+      expect(screen.getByRole('button', { name: 'WTD' })).toBeDisabled();
+    });
+  });
+
+  describe('time zones', () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("works on the zone's calendar and returns instants", () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      // 01:00 on October 19 in Seoul
+      vi.setSystemTime(new Date('2026-10-18T16:00:00Z'));
+      const changes: string[] = [];
+      const Harness = () => {
+        const [value, setValue] = useState<DateRange>({
+          startDate: new Date('2026-10-01T15:00:00Z'),
+          endDate: new Date('2026-10-02T14:59:59Z')
+        });
+        return (
+          <DateRangePicker
+            value={value}
+            onChange={(next) => {
+              setValue(next);
+              changes.push(`${next.startDate?.toISOString()}|${next.endDate?.toISOString()}`);
+            }}
+            timeZone="Asia/Seoul"
+            onCalendarDateChange={({ startDate, endDate }) =>
+              changes.push(`${startDate}|${endDate}`)
+            }
+          />
+        );
+      };
+      render(<Harness />);
+      expect(trigger()).toHaveTextContent('2026-10-02 ~ 2026-10-02');
+      fireEvent.click(trigger());
+      expect(cell(/October 19th, 2026/)).toHaveAttribute('aria-current', 'date');
+      fireEvent.click(screen.getByRole('button', { name: 'Today' }));
+      expect(changes).toEqual([
+        '2026-10-18T15:00:00.000Z|2026-10-18T15:00:00.000Z',
+        '2026-10-19|2026-10-19'
+      ]);
+    });
+  });
+
+  describe('value formats', () => {
+    it('emits ISO intervals in the layout of the value', () => {
+      const changes: string[] = [];
+      const Harness = () => {
+        const [value, setValue] = useState('2026-01-05');
+        return (
+          <DateRangePicker
+            valueFormat="isoInterval"
+            value={value}
+            onChange={(next) => {
+              changes.push(next);
+              setValue(next);
+            }}
+          />
+        );
+      };
+      render(<Harness />);
+      const button = screen.getByRole('button', { name: /2026-01-05/ });
+      expect(button).toHaveTextContent('2026-01-05 / 2026-01-05');
+      fireEvent.click(button);
+      fireEvent.click(cell(/January 20th, 2026/));
+      fireEvent.click(cell(/January 20th, 2026/));
+      fireEvent.click(screen.getByRole('button', { name: /2026-01-20/ }));
+      fireEvent.click(cell(/January 20th, 2026/));
+      fireEvent.click(cell(/January 22nd, 2026/));
+      expect(changes).toEqual(['2026-01-20', '2026-01-20/2026-01-22']);
+    });
+
+    it('keeps the time part of ISO dates without the time picker', () => {
+      const onChange = vi.fn();
+      render(
+        <DateRangePicker
+          valueFormat="isoDate"
+          value={{ startDate: '2026-01-05T08:15:00', endDate: '2026-01-09T18:00:00' }}
+          onChange={onChange}
+        />
+      );
+      fireEvent.click(trigger());
+      fireEvent.click(cell(/January 20th, 2026/));
+      fireEvent.click(cell(/January 22nd, 2026/));
+      expect(onChange).toHaveBeenLastCalledWith({
+        startDate: '2026-01-20T00:00:00',
+        endDate: '2026-01-22T00:00:00'
+      });
+    });
+
+    it('keeps the precision and offset of ISO dates', () => {
+      const onChange = vi.fn();
+      render(
+        <DateRangePicker
+          valueFormat="isoDate"
+          timeZone="Asia/Seoul"
+          value={{ startDate: '2026-01-05T08:15+09:00', endDate: '2026-01-09T18:00+09:00' }}
+          onChange={onChange}
+        />
+      );
+      fireEvent.click(trigger());
+      fireEvent.click(cell(/January 20th, 2026/));
+      fireEvent.click(cell(/January 22nd, 2026/));
+      expect(onChange).toHaveBeenLastCalledWith({
+        startDate: '2026-01-20T00:00+09:00',
+        endDate: '2026-01-22T00:00+09:00'
+      });
+    });
+
+    it('emits plain dates', () => {
+      const onChange = vi.fn();
+      const day = { year: 2026, month: 1, day: 5 };
+      render(
+        <DateRangePicker
+          valueFormat="plainDate"
+          singleDatePicker
+          value={{ startDate: day, endDate: day }}
+          onChange={onChange}
+        />
+      );
+      fireEvent.click(screen.getByRole('button', { name: /2026-01-05/ }));
+      fireEvent.click(cell(/January 9th, 2026/));
+      const next = { year: 2026, month: 1, day: 9 };
+      expect(onChange).toHaveBeenLastCalledWith({ startDate: next, endDate: next });
+    });
+  });
+
+  describe('uncontrolled value, controlled open and ref', () => {
+    it('keeps its own value from defaultValue', () => {
+      render(<DateRangePicker defaultValue={january} />);
+      expect(trigger()).toHaveTextContent('2026-01-05 ~ 2026-01-10');
+      fireEvent.click(trigger());
+      fireEvent.click(cell(/January 20th, 2026/));
+      fireEvent.click(cell(/January 22nd, 2026/));
+      expect(trigger()).toHaveTextContent('2026-01-20 ~ 2026-01-22');
+    });
+
+    it('is driven through the ref handle', () => {
+      const ref = createRef<DateRangePickerHandle>();
+      const onOpenChange = vi.fn();
+      render(<DateRangePicker ref={ref} defaultValue={january} onOpenChange={onOpenChange} />);
+      act(() => ref.current?.open());
+      expect(screen.getByRole('dialog')).toBeInTheDocument();
+      act(() => ref.current?.navigateTo(new Date(2026, 5, 1)));
+      expect(screen.getAllByRole('grid')[0]).toHaveAccessibleName(/June 2026/);
+      act(() =>
+        ref.current?.setRange({ startDate: new Date(2026, 2, 1), endDate: new Date(2026, 2, 3) })
+      );
+      expect(trigger()).toHaveTextContent('2026-03-01 ~ 2026-03-03');
+      act(() => ref.current?.clear());
+      expect(trigger()).toHaveTextContent('Start ~ End');
+      act(() => ref.current?.close());
+      expect(screen.queryByRole('dialog')).toBeNull();
+      expect(onOpenChange.mock.calls).toEqual([[true], [false]]);
+      act(() => ref.current?.focus());
+      expect(trigger()).toHaveFocus();
+    });
+
+    it('checks ranges set through the ref against the span limits', () => {
+      const ref = createRef<DateRangePickerHandle>();
+      const onSpanViolation = vi.fn();
+      renderRange(january, { ref, maxSpan: 3, onSpanViolation });
+      act(() =>
+        ref.current?.setRange({ startDate: new Date(2026, 2, 1), endDate: new Date(2026, 2, 9) })
+      );
+      expect(onSpanViolation).toHaveBeenCalledWith(expect.objectContaining({ reason: 'maxSpan' }));
+      expect(selected()).toBe('Mon Jan 05 2026 - Sat Jan 10 2026');
+    });
+
+    it('follows a controlled open prop', () => {
+      const Harness = () => {
+        const [open, setOpen] = useState(false);
+        return (
+          <>
+            <DateRangePicker value={emptyRange} open={open} onOpenChange={setOpen} />
+            <span data-testid="open">{String(open)}</span>
+          </>
+        );
+      };
+      render(<Harness />);
+      fireEvent.click(trigger());
+      expect(screen.getByTestId('open')).toHaveTextContent('true');
+      fireEvent.mouseDown(document.body);
+      expect(screen.getByTestId('open')).toHaveTextContent('false');
+      expect(screen.queryByRole('dialog')).toBeNull();
+    });
+
+    it('stays open while the open prop says so', () => {
+      render(<DateRangePicker value={emptyRange} open />);
+      fireEvent.mouseDown(document.body);
+      expect(screen.getByRole('dialog')).toBeInTheDocument();
+    });
+  });
+
+  describe('form integration', () => {
+    const formData = (form: HTMLFormElement) => Object.fromEntries(new FormData(form));
+
+    it('submits, resets and reports focus with its form', () => {
+      const events: string[] = [];
+      render(
+        <form data-testid="form">
+          <DateRangePicker
+            name="stay"
+            startName="in"
+            endName="out"
+            required
+            defaultValue={january}
+            onFocus={() => events.push('focus')}
+            onBlur={() => events.push('blur')}
+          />
+          <input data-testid="other" />
+        </form>
+      );
+      const form = screen.getByTestId('form') as HTMLFormElement;
+      expect(formData(form)).toMatchObject({
+        stay: '2026-01-05/2026-01-10',
+        in: '2026-01-05',
+        out: '2026-01-10'
+      });
+      expect(form.checkValidity()).toBe(true);
+      act(() => trigger().focus());
+      fireEvent.click(trigger());
+      fireEvent.click(cell(/January 20th, 2026/));
+      fireEvent.click(cell(/January 22nd, 2026/));
+      expect(formData(form)).toMatchObject({ stay: '2026-01-20/2026-01-22' });
+      act(() => screen.getByTestId('other').focus());
+      expect(events).toEqual(['focus', 'blur']);
+      act(() => form.reset());
+      expect(formData(form)).toMatchObject({ stay: '2026-01-05/2026-01-10' });
+    });
+
+    it('leaves disabled pickers out and keeps read-only ones closed', () => {
+      render(
+        <form data-testid="form">
+          <DateRangePicker name="disabled" required disabled />
+          <DateRangePicker
+            name="readOnly"
+            required
+            readOnly
+            singleDatePicker
+            defaultValue={{ startDate: new Date(2026, 0, 5), endDate: null }}
+          />
+        </form>
+      );
+      const form = screen.getByTestId('form') as HTMLFormElement;
+      expect(formData(form)).toEqual({ readOnly: '2026-01-05' });
+      expect(form.checkValidity()).toBe(true);
+      screen.getAllByRole('button').forEach((button) => fireEvent.click(button));
+      expect(screen.queryByRole('dialog')).toBeNull();
+    });
+
+    it('blocks submission while a required range is empty', () => {
+      render(
+        <form data-testid="form">
+          <DateRangePicker name="empty" required />
+        </form>
+      );
+      const form = screen.getByTestId('form') as HTMLFormElement;
+      expect(form.checkValidity()).toBe(false);
+      const input = form.querySelector('.drp-validation-input') as HTMLInputElement;
+      expect(input.validationMessage).toBe('Please select a start and end date.');
+    });
+  });
+
+  describe('lifecycle callbacks', () => {
+    it('reports opening, closing and its reasons', () => {
+      const log: string[] = [];
+      render(
+        <DateRangePicker
+          value={january}
+          onChange={() => log.push('change')}
+          autoApply={false}
+          showClearButton
+          onOpen={() => log.push('open')}
+          onClose={(reason) => log.push(`close:${reason}`)}
+          onCancel={() => log.push('cancel')}
+          onClear={() => log.push('clear')}
+        />
+      );
+      fireEvent.click(trigger());
+      fireEvent.click(cell(/January 20th, 2026/));
+      fireEvent.click(cell(/January 22nd, 2026/));
+      fireEvent.click(screen.getByRole('button', { name: /^apply$/i }));
+      fireEvent.click(trigger());
+      fireEvent.click(screen.getByRole('button', { name: /^cancel$/i }));
+      fireEvent.click(trigger());
+      fireEvent.mouseDown(document.body);
+      fireEvent.click(trigger());
+      fireEvent.keyUp(document, { key: 'Escape' });
+      fireEvent.click(trigger());
+      fireEvent.click(trigger());
+      expect(log).toEqual([
+        'open',
+        'change',
+        'close:apply',
+        'open',
+        'cancel',
+        'close:cancel',
+        'open',
+        'close:outsideClick',
+        'open',
+        'close:escape',
+        'open',
+        'close:trigger'
+      ]);
+    });
+
+    it('reports hovering, the first pick and paging', () => {
+      const log: string[] = [];
+      const short = (date: Date | null) =>
+        date ? `${date.getMonth() + 1}/${date.getDate()}` : '-';
+      render(
+        <DateRangePicker
+          value={january}
+          onChange={() => {}}
+          onStartDateSelect={(date) => log.push(`start:${short(date)}`)}
+          onHoverRangeChange={(range) =>
+            log.push(`hover:${range ? `${short(range.startDate)}-${short(range.endDate)}` : '-'}`)
+          }
+          onViewChange={(months) => log.push(`view:${months.map(short).join(',')}`)}
+        />
+      );
+      log.length = 0;
+      fireEvent.click(trigger());
+      fireEvent.click(cell(/January 20th, 2026/));
+      fireEvent.mouseEnter(cell(/January 22nd, 2026/));
+      fireEvent.click(screen.getByRole('button', { name: /next month/i }));
+      expect(log).toEqual(['start:1/20', 'hover:1/20-1/22', 'view:2/1,3/1']);
+    });
+  });
+});
@@ -1,719 +1,587 @@
-import { useEffect, useMemo, useRef, useState } from 'react';
-import {
-  addDays,
-  addMonths,
-  endOfDay,
-  endOfMonth,
-  endOfWeek,
-  format,
-  parse,
-  isValid,
-  isAfter,
-  isBefore,
-  isSameDay,
-  isSameMonth,
-  isWithinInterval,
-  startOfDay,
-  startOfMonth,
-  startOfToday,
-  startOfWeek
-} from 'date-fns';
-import type { Locale } from 'date-fns';
+import { Fragment, useEffect, useImperativeHandle, useState } from 'react';
+import type { CSSProperties, ReactNode, Ref } from 'react';
+import { createPortal } from 'react-dom';
+import { endOfMonth, format, isSameMonth } from 'date-fns';
 import clsx from 'clsx';
+import DateSegments from './DateSegments';
+import useDateRangePicker, {
+  type DayState,
+  type UseDateRangePickerOptions
+} from '../hooks/useDateRangePicker';
+import useCalendarGrid from '../hooks/useCalendarGrid';
 import type { DateRange } from '../types';
 import './date-range-picker.css';
-
-export type PresetRange = {
-  label: string;
-  range: () => DateRange;
+import './date-range-picker-modal.css';
+
+export type {
+  DateRangePickerLabels,
+  DayState,
+  DisabledRangePolicy,
+  Granularity,
+  PagingMode,
+  PresetDate,
+  PresetRange,
+  SelectionMode,
+  SpanViolation,
+  ValidationError,
+  ValidationErrorReason,
+  WeekNumbering
+} from '../hooks/useDateRangePicker';
+
+type Props = UseDateRangePickerOptions & {
+  className?: string;
+  showClearButton?: boolean;
+  triggerWidth?: number | string;
+  /** Calendar panes per row before wrapping (default up to 3) */
+  monthsPerRow?: number;
+  /** Mark today's cell with `drp-day--today` (default `true`) */
+  highlightToday?: boolean;
+  /** Mark `weekendDays` with `drp-day--weekend` */
+  highlightWeekends?: boolean;
+  /** Replace the content of each day cell; the cell itself keeps its behaviour */
+  renderDay?: (day: Date, state: DayState) => ReactNode;
+  /** Extra class, tooltip, style or data attributes for a day cell */
+  getDayProps?: (day: Date, state: DayState) => DayCellProps | undefined;
+  /** Per-day label, dot, title and class, keyed by `yyyy-MM-dd` */
+  dayMetadata?: Record<string, DayMetadata>;
+  ref?: Ref<DateRangePickerHandle>;
 };
 
-export type PresetDate = {
-  label: string;
-  date: () => Date;
+/** Imperative controls reached through `ref` */
+export type DateRangePickerHandle = {
+  open: () => void;
+  close: () => void;
+  clear: () => void;
+  /** Select a range of instants, subject to the same rules as a preset */
+  setRange: (range: DateRange) => void;
+  /** Move focus to the trigger */
+  focus: () => void;
+  /** Show the month of `month` in the first calendar */
+  navigateTo: (month: Date) => void;
 };
 
-type Props = {
-  value: DateRange;
-  onChange: (next: DateRange) => void;
-  displayFormat?: string;
-  presetRanges?: PresetRange[];
-  presetDates?: PresetDate[];
-  minDate?: Date;
-  maxDate?: Date;
-  closeOnSelect?: boolean;
+export type DayMetadata = {
+  /** Short text under the date, e.g. a nightly price */
+  label?: ReactNode;
+  /** Show an event dot; a string sets its colour */
+  dot?: boolean | string;
+  /** Tooltip, also read by screen readers, e.g. a holiday name */
+  title?: string;
   className?: string;
-  autoApply?: boolean;
-  singleDatePicker?: boolean;
-  showPresets?: boolean;
-  locale?: Locale;
-  showClearButton?: boolean;
-  triggerWidth?: number | string;
-  editable?: boolean;
-  separateCalendars?: boolean;
 };
 
-const defaultPresets: PresetRange[] = [
-  {
-    label: 'Today',
-    range: () => {
-      const today = startOfToday();
-      return { startDate: today, endDate: today };
-    }
-  },
-  {
-    label: 'Yesterday',
-    range: () => {
-      const yesterday = addDays(startOfToday(), -1);
-      return { startDate: yesterday, endDate: yesterday };
-    }
-  },
-  {
-    label: 'Last 7 days',
-    range: () => {
-      const end = endOfDay(startOfToday());
-      const start = startOfDay(addDays(end, -6));
-      return { startDate: start, endDate: end };
-    }
-  },
-  {
-    label: 'Last 30 days',
-    range: () => {
-      const end = endOfDay(startOfToday());
-      const start = startOfDay(addDays(end, -29));
-      return { startDate: start, endDate: end };
-    }
-  },
-  {
-    label: 'This month',
-    range: () => {
-      const start = startOfMonth(startOfToday());
-      const end = endOfMonth(start);
-      return { startDate: start, endDate: end };
-    }
-  }
-];
-
-const defaultSinglePresets: PresetDate[] = [
-  {
-    label: 'Today',
-    date: () => startOfToday()
-  },
-  {
-    label: 'Yesterday',
-    date: () => addDays(startOfToday(), -1)
-  },
-  {
-    label: '7 days ago',
-    date: () => addDays(startOfToday(), -7)
-  },
-  {
-    label: '30 days ago',
-    date: () => addDays(startOfToday(), -30)
-  }
-];
-
-const buildCalendar = (month: Date) => {
-  const start = startOfWeek(startOfMonth(month));
-  const end = endOfWeek(endOfMonth(month));
-  const days: Date[] = [];
-
-  let cursor = start;
-  while (!isAfter(cursor, end)) {
-    days.push(cursor);
-    cursor = addDays(cursor, 1);
-  }
-
-  return days;
+export type DayCellProps = {
+  className?: string;
+  title?: string;
+  style?: CSSProperties;
+  [dataAttribute: `data-${string}`]: string | number | boolean | undefined;
 };
 
-const DateRangePicker = ({
-  value,
-  onChange,
-  displayFormat = 'yyyy-MM-dd',
-  presetRanges = defaultPresets,
-  presetDates,
-  minDate,
-  maxDate,
-  closeOnSelect = true,
-  className,
-  autoApply = true,
-  singleDatePicker = false,
-  showPresets = true,
-  locale,
-  showClearButton = false,
-  triggerWidth,
-  editable = false,
-  separateCalendars = false
-}: Props) => {
-  const [open, setOpen] = useState(false);
-  const [viewDateStart, setViewDateStart] = useState<Date>(value.startDate ?? startOfToday());
-  const [viewDateEnd, setViewDateEnd] = useState<Date>(
-    value.startDate ? addMonths(value.startDate, 1) : addMonths(startOfToday(), 1)
-  );
-  const [hoverDate, setHoverDate] = useState<Date | null>(null);
-  const [tempRange, setTempRange] = useState<DateRange>(value);
-  const [openYearDropdown, setOpenYearDropdown] = useState<number | null>(null);
-  const [openMonthDropdown, setOpenMonthDropdown] = useState<number | null>(null);
-  const containerRef = useRef<HTMLDivElement | null>(null);
-  const [textValue, setTextValue] = useState<string>('');
+type JumpView = {
+  calendarIndex: number;
+  stage: 'years' | 'months';
+  /** Year whose months are listed */
+  year: number;
+  /** First year of the listed decade */
+  decade: number;
+};
 
-  useEffect(() => {
-    const handleClick = (event: MouseEvent) => {
-      if (!containerRef.current) return;
-      if (containerRef.current.contains(event.target as Node)) return;
-      setOpen(false);
-    };
-
-    const handleKey = (event: KeyboardEvent) => {
-      if (event.key === 'Escape') setOpen(false);
-    };
-
-    document.addEventListener('mousedown', handleClick);
-    document.addEventListener('keyup', handleKey);
-    return () => {
-      document.removeEventListener('mousedown', handleClick);
-      document.removeEventListener('keyup', handleKey);
-    };
-  }, []);
+// Key format of dayMetadata entries
+const metadataKeyFormat = 'yyyy-MM-dd';
 
-  useEffect(() => {
-    if (value.startDate) {
-      setViewDateStart(startOfMonth(value.startDate));
-      if (value.endDate && !isSameMonth(value.startDate, value.endDate)) {
-        // Different months: show start month on left, end month on right
-        setViewDateEnd(startOfMonth(value.endDate));
-      } else {
-        // Same month or no end date: show start month on left, next month on right
-        setViewDateEnd(addMonths(startOfMonth(value.startDate), 1));
-      }
-    }
-  }, [value.startDate, value.endDate]);
+// Cell text of the month, quarter and year grids
+const periodCellFormats = {
+  month: 'MMM',
+  quarter: 'QQQ',
+  year: 'yyyy'
+};
 
-  useEffect(() => {
-    setTempRange(value);
-  }, [value, open]);
+const DateRangePicker = (props: Props) => {
+  const {
+    className,
+    showClearButton = false,
+    triggerWidth,
+    monthsPerRow,
+    highlightToday = true,
+    highlightWeekends = false,
+    renderDay,
+    getDayProps: getExtraDayProps,
+    dayMetadata,
+    ref
+  } = props;
+  const picker = useDateRangePicker(props);
+  const {
+    singleDatePicker,
+    granularity,
+    periodView,
+    editable,
+    showPresets,
+    separateCalendars,
+    linkedPaging,
+    autoApply,
+    inline,
+    mobile,
+    minDate,
+    maxDate,
+    required,
+    disabled,
+    readOnly,
+    timePicker,
+    timePicker24Hour,
+    timePickerIncrement,
+    timePickerSeconds,
+    rangeSeparator,
+    weekNumbers,
+    locale,
+    labels,
+    open,
+    tempRange,
+    visibleMonths,
+    inputError,
+    label,
+    announcement,
+    hasValue,
+    presets,
+    matchedPresetIndex,
+    segmentsSupported,
+    segmentsKey,
+    periods,
+    periodTitle,
+    canSelectWeeks,
+    portalTarget,
+    setOpen,
+    setTextValue,
+    setViewMonth,
+    setTime,
+    apply,
+    cancel,
+    clear,
+    isSpanFullyDisabled,
+    isViewMonthBlocked,
+    isWeekHovered,
+    getDayState,
+    getPeriodState
+  } = picker;
+  const { calendars, weekdays, monthNames } = useCalendarGrid({
+    months: visibleMonths,
+    weekStartsOn: picker.weekStartsOn,
+    weekNumbers,
+    locale
+  });
+  // Month/year jump view opened from a calendar title, replacing that calendar's day grid
+  const [jumpView, setJumpView] = useState<JumpView | null>(null);
 
-  // keep text in sync when external value changes
   useEffect(() => {
-    const l = ((): string => {
-      if (singleDatePicker) {
-        return value.startDate ? format(value.startDate, displayFormat, { locale }) : '';
-      }
-      const start = value.startDate ? format(value.startDate, displayFormat, { locale }) : '';
-      const end = value.endDate ? format(value.endDate, displayFormat, { locale }) : '';
-      return start && end ? `${start} ~ ${end}` : '';
-    })();
-    setTextValue(l);
-  }, [value.startDate, value.endDate, singleDatePicker, displayFormat, locale]);
-
-  const getCanGoPrev = (calendarIndex: number) => {
-    if (!minDate) return true;
-    const viewDate = calendarIndex === 0 ? viewDateStart : viewDateEnd;
-    const prevMonthEnd = endOfMonth(addMonths(viewDate, -1));
-    return !isBefore(prevMonthEnd, startOfDay(minDate));
-  };
-
-  const getCanGoNext = (calendarIndex: number) => {
-    if (!maxDate) return true;
-    const viewDate = calendarIndex === 0 ? viewDateStart : viewDateEnd;
-    const nextMonthStart = startOfMonth(addMonths(viewDate, 1));
-    return !isAfter(nextMonthStart, endOfDay(maxDate));
+    if (!open) setJumpView(null);
+  }, [open]);
+
+  // Rebuilt every render so the handle always acts on the current state
+  useImperativeHandle(ref, () => ({
+    open: () => setOpen(true),
+    close: () => setOpen(false),
+    clear,
+    setRange: picker.setRange,
+    focus: picker.focus,
+    navigateTo: picker.navigateTo
+  }));
+
+  const calendarsStyle = {
+    gridTemplateColumns: `repeat(${monthsPerRow ?? Math.min(calendars.length, 3)}, minmax(260px, 280px))`
   };
 
-  const handleMonthYearChange = (calendarIndex: number, newDate: Date) => {
-    const newMonth = startOfMonth(newDate);
-    if (calendarIndex === 0) {
-      // Left calendar: change independently
-      setViewDateStart(newMonth);
-    } else {
-      // Right calendar: change independently
-      setViewDateEnd(newMonth);
+  const triggerStyle = triggerWidth
+    ? { width: typeof triggerWidth === 'number' ? `${triggerWidth}px` : triggerWidth }
+    : undefined;
+
+  const renderTimePicker = (calendarIndex: number) => {
+    const target = calendarIndex === 0 ? tempRange.startDate : tempRange.endDate;
+    const hours = target?.getHours() ?? 0;
+    const minutes = target?.getMinutes() ?? 0;
+    const seconds = target?.getSeconds() ?? 0;
+    const isPm = hours >= 12;
+    const pad = (n: number) => String(n).padStart(2, '0');
+    const hourOptions = timePicker24Hour
+      ? Array.from({ length: 24 }, (_, i) => i)
+      : Array.from({ length: 12 }, (_, i) => i + 1);
+    const minuteOptions = Array.from(
+      { length: Math.ceil(60 / timePickerIncrement) },
+      (_, i) => i * timePickerIncrement
+    );
+    // Keep an off-step value (e.g. from a preset) selectable rather than silently snapping it
+    if (!minuteOptions.includes(minutes)) {
+      minuteOptions.push(minutes);
+      minuteOptions.sort((a, b) => a - b);
     }
-  };
+    const groupLabel = singleDatePicker
+      ? labels.time
+      : calendarIndex === 0
+        ? labels.startTime
+        : labels.endTime;
 
-  const label = useMemo(() => {
-    if (singleDatePicker) {
-      return value.startDate ? format(value.startDate, displayFormat, { locale }) : 'Select Date';
-    }
-    const start = value.startDate ? format(value.startDate, displayFormat, { locale }) : 'Start';
-    const end = value.endDate ? format(value.endDate, displayFormat, { locale }) : 'End';
-    return `${start} ~ ${end}`;
-  }, [value, displayFormat, singleDatePicker, locale]);
-
-  const applyText = () => {
-    if (!editable) return;
-    if (singleDatePicker) {
-      const parsed = parse(textValue.trim(), displayFormat, new Date(), { locale });
-      if (isValid(parsed) && !disableDate(parsed)) {
-        const next = { startDate: parsed, endDate: parsed } as DateRange;
-        setTempRange(next);
-        setViewDateStart(startOfMonth(parsed));
-        setViewDateEnd(addMonths(startOfMonth(parsed), 1));
-        if (autoApply) {
-          onChange(next);
-        }
-      }
-      return;
-    }
-    // range input: split by '~'
-    const parts = textValue.split('~');
-    if (parts.length !== 2) return;
-    const sTxt = parts[0].trim();
-    const eTxt = parts[1].trim();
-    const sParsed = parse(sTxt, displayFormat, new Date(), { locale });
-    const eParsed = parse(eTxt, displayFormat, new Date(), { locale });
-    if (isValid(sParsed) && isValid(eParsed) && !disableDate(sParsed) && !disableDate(eParsed)) {
-      let start = startOfDay(sParsed);
-      let end = endOfDay(eParsed);
-      if (isAfter(start, end)) {
-        start = startOfDay(eParsed);
-        end = endOfDay(sParsed);
-      }
-      const next = { startDate: start, endDate: end } as DateRange;
-      setTempRange(next);
-      setViewDateStart(startOfMonth(start));
-      setViewDateEnd(startOfMonth(addMonths(start, 1)));
-      if (autoApply) {
-        onChange(next);
-      }
-    }
+    return (
+      <div className="drp-time" role="group" aria-label={groupLabel}>
+        <select
+          className="drp-time__select"
+          aria-label={labels.hour}
+          disabled={!target}
+          value={timePicker24Hour ? hours : hours % 12 || 12}
+          onChange={(e) => {
+            const picked = Number(e.target.value);
+            setTime(calendarIndex, {
+              hours: timePicker24Hour ? picked : (picked % 12) + (isPm ? 12 : 0)
+            });
+          }}
+        >
+          {hourOptions.map((h) => (
+            <option key={h} value={h}>
+              {pad(h)}
+            </option>
+          ))}
+        </select>
+        <span className="drp-time__separator">:</span>
+        <select
+          className="drp-time__select"
+          aria-label={labels.minute}
+          disabled={!target}
+          value={minutes}
+          onChange={(e) => setTime(calendarIndex, { minutes: Number(e.target.value) })}
+        >
+          {minuteOptions.map((m) => (
+            <option key={m} value={m}>
+              {pad(m)}
+            </option>
+          ))}
+        </select>
+        {timePickerSeconds && (
+          <>
+            <span className="drp-time__separator">:</span>
+            <select
+              className="drp-time__select"
+              aria-label={labels.second}
+              disabled={!target}
+              value={seconds}
+              onChange={(e) => setTime(calendarIndex, { seconds: Number(e.target.value) })}
+            >
+              {Array.from({ length: 60 }, (_, i) => i).map((sec) => (
+                <option key={sec} value={sec}>
+                  {pad(sec)}
+                </option>
+              ))}
+            </select>
+          </>
+        )}
+        {!timePicker24Hour && (
+          <select
+            className="drp-time__select"
+            aria-label={labels.meridiem}
+            disabled={!target}
+            value={isPm ? 'pm' : 'am'}
+            onChange={(e) =>
+              setTime(calendarIndex, {
+                hours: (hours % 12) + (e.target.value === 'pm' ? 12 : 0)
+              })
+            }
+          >
+            <option value="am">{format(new Date(2000, 0, 1, 0), 'a', { locale })}</option>
+            <option value="pm">{format(new Date(2000, 0, 1, 12), 'a', { locale })}</option>
+          </select>
+        )}
+      </div>
+    );
   };
 
-  // Currently selected preset index computed from tempRange; null if no match
-  const matchedPresetIndex = useMemo(() => {
-    if (singleDatePicker) {
-      if (!tempRange.startDate) return null;
-      const list = presetDates ?? defaultSinglePresets;
-      const s = tempRange.startDate;
-      const idx = list.findIndex((p) => isSameDay(p.date(), s!));
-      return idx >= 0 ? idx : null;
+  const renderWeekNumber = (days: Date[], weekNumber: number) => {
+    if (!canSelectWeeks) {
+      return (
+        <span key="week" className="drp-week-number" role="rowheader">
+          {weekNumber}
+        </span>
+      );
     }
-    if (!tempRange.startDate || !tempRange.endDate) return null;
-    const s = tempRange.startDate;
-    const e = tempRange.endDate;
-    const idx = presetRanges.findIndex((preset) => {
-      const r = preset.range();
-      if (!r.startDate || !r.endDate) return false;
-      return isSameDay(r.startDate!, s!) && isSameDay(r.endDate!, e!);
-    });
-    return idx >= 0 ? idx : null;
-  }, [singleDatePicker, presetDates, presetRanges, tempRange.startDate, tempRange.endDate]);
-
-  const disableDate = (day: Date) => {
-    if (minDate && isBefore(day, startOfDay(minDate))) return true;
-    if (maxDate && isAfter(day, endOfDay(maxDate))) return true;
-    return false;
+    return (
+      <button
+        key="week"
+        className="drp-week-number"
+        {...picker.getWeekNumberProps(days, weekNumber)}
+      >
+        {weekNumber}
+      </button>
+    );
   };
 
-  const isActive = (day: Date) => {
-    if (tempRange.startDate && isSameDay(day, tempRange.startDate)) return 'start';
-    if (tempRange.endDate && isSameDay(day, tempRange.endDate)) return 'end';
-    return null;
-  };
+  // Month, quarter and year granularities pick whole periods from a single grid
+  const renderPeriodCalendar = (period: 'month' | 'quarter' | 'year') => {
+    const columns = period === 'quarter' ? 2 : 3;
+    const rows = Array.from({ length: Math.ceil(periods.length / columns) }, (_, i) =>
+      periods.slice(i * columns, (i + 1) * columns)
+    );
 
-  const isInRange = (day: Date) => {
-    if (tempRange.startDate && tempRange.endDate) {
-      return isWithinInterval(day, {
-        start: startOfDay(tempRange.startDate),
-        end: endOfDay(tempRange.endDate)
-      });
-    }
-    if (tempRange.startDate && hoverDate) {
-      const start = isBefore(hoverDate, tempRange.startDate) ? hoverDate : tempRange.startDate;
-      const end = isAfter(hoverDate, tempRange.startDate) ? hoverDate : tempRange.startDate;
-      return isWithinInterval(day, { start: startOfDay(start), end: endOfDay(end) });
-    }
-    return false;
+    return (
+      <div className="drp-calendar">
+        <div className="drp-calendar__header">
+          <button className="drp-nav-btn" {...picker.getPrevButtonProps(0)}>
+            {'<'}
+          </button>
+          <div className="drp-calendar__title">{periodTitle}</div>
+          <button className="drp-nav-btn" {...picker.getNextButtonProps(0)}>
+            {'>'}
+          </button>
+        </div>
+        <div
+          role="grid"
+          className={clsx('drp-periods', `drp-periods--${period}`)}
+          aria-label={periodTitle}
+        >
+          {rows.map((row) => (
+            <div key={row[0].toISOString()} className="drp-periods__row" role="row">
+              {row.map((start) => {
+                const { disabled, isStart, isEnd, inRange } = getPeriodState(start);
+                return (
+                  <button
+                    key={start.toISOString()}
+                    className={clsx('drp-period', {
+                      'drp-period--disabled': disabled,
+                      'drp-period--in-range': inRange,
+                      'drp-period--start': isStart,
+                      'drp-period--end': isEnd
+                    })}
+                    {...picker.getPeriodProps(start, columns)}
+                  >
+                    {format(start, periodCellFormats[period], { locale })}
+                  </button>
+                );
+              })}
+            </div>
+          ))}
+        </div>
+      </div>
+    );
   };
 
-  const handleDayClick = (day: Date, calendarIndex?: number) => {
-    // Close all dropdowns
-    setOpenYearDropdown(null);
-    setOpenMonthDropdown(null);
-
-    if (disableDate(day)) return;
-
-    if (singleDatePicker) {
-      setTempRange({ startDate: day, endDate: day });
-      if (autoApply) {
-        onChange({ startDate: day, endDate: day });
-        if (closeOnSelect) setOpen(false);
-      }
-      return;
-    }
-
-    if (separateCalendars && calendarIndex !== undefined) {
-      // Range_FromTo mode: left calendar sets start, right calendar sets end
-      // Calendar views remain fixed and don't change when selecting dates
-      if (calendarIndex === 0) {
-        // Left calendar: set startDate
-        const end = tempRange.endDate;
-        let newRange: DateRange;
-        if (end && isAfter(day, end)) {
-          // If new start is after current end, swap them
-          newRange = { startDate: end, endDate: day };
-        } else {
-          newRange = { startDate: day, endDate: end };
-        }
-        setTempRange(newRange);
-        if (autoApply && newRange.startDate && newRange.endDate) {
-          onChange(newRange);
-          if (closeOnSelect) setOpen(false);
-        }
-      } else {
-        // Right calendar: set endDate
-        const start = tempRange.startDate;
-        let newRange: DateRange;
-        if (start && isBefore(day, start)) {
-          // If new end is before current start, swap them
-          newRange = { startDate: day, endDate: start };
-        } else {
-          newRange = { startDate: start, endDate: day };
-        }
-        setTempRange(newRange);
-        if (autoApply && newRange.startDate && newRange.endDate) {
-          onChange(newRange);
-          if (closeOnSelect) setOpen(false);
-        }
-      }
-      return;
-    }
-
-    // Free range mode: original behavior
-    if (!tempRange.startDate || (tempRange.startDate && tempRange.endDate)) {
-      setTempRange({ startDate: day, endDate: null });
-      setHoverDate(null);
-      return;
-    }
-
-    const start = tempRange.startDate;
-    if (!start) return;
-
-    let newRange: DateRange;
-    if (isBefore(day, start)) {
-      newRange = { startDate: day, endDate: start };
-    } else {
-      newRange = { startDate: start, endDate: day };
-    }
-    setTempRange(newRange);
-    if (autoApply) {
-      onChange(newRange);
-      if (closeOnSelect) setOpen(false);
-    }
+  const renderDayContent = (day: Date, meta: DayMetadata | undefined) => {
+    const number = format(day, 'd', { locale });
+    if (meta?.label == null && !meta?.dot) return number;
+    return (
+      <>
+        <span className="drp-day__number">{number}</span>
+        {meta.label != null && <span className="drp-day__label">{meta.label}</span>}
+        {meta.dot && (
+          <span
+            className="drp-day__dot"
+            style={typeof meta.dot === 'string' ? { background: meta.dot } : undefined}
+            aria-hidden="true"
+          />
+        )}
+      </>
+    );
   };
 
-  const applyPreset = (preset: PresetRange) => {
-    const next = preset.range();
-    setTempRange(next);
-    if (autoApply) {
-      onChange(next);
-      if (closeOnSelect) setOpen(false);
-    }
+  // Weekday header and day rows of one month
+  const renderDayGrid = (calendarIndex: number) => {
+    const { month, weeks } = calendars[calendarIndex];
+    return (
+      <div
+        role="grid"
+        className={clsx('drp-calendar__table', {
+          'drp-calendar__table--week-numbers': weekNumbers
+        })}
+        aria-label={format(month, 'MMMM yyyy', { locale })}
+      >
+        <div className="drp-calendar__weekdays" role="row">
+          {weekNumbers && (
+            <span role="columnheader" className="drp-calendar__week-column">
+              {labels.weekColumn}
+            </span>
+          )}
+          {weekdays.map((d) => (
+            <span key={d} role="columnheader">
+              {d}
+            </span>
+          ))}
+        </div>
+        <div className="drp-calendar__grid">
+          {weeks.map(({ days, weekNumber }) => (
+            <div
+              key={days[0].toISOString()}
+              className={clsx('drp-calendar__row', {
+                'drp-calendar__row--hover': isWeekHovered(days)
+              })}
+              role="row"
+            >
+              {weekNumber !== undefined && renderWeekNumber(days, weekNumber)}
+              {days.map((day) => {
+                const state = getDayState(day, calendarIndex, month);
+                const { disabled, active, inRange, outsideMonth, isToday, isWeekend, holiday } =
+                  state;
+                const dayProps = picker.getDayProps(day, calendarIndex, month);
+                const meta = dayMetadata?.[format(day, metadataKeyFormat)];
+                const extraProps = getExtraDayProps?.(day, state);
+                // Holiday names and text labels are read out after the date
+                const description = [
+                  holiday,
+                  meta?.title,
+                  typeof meta?.label === 'string' ? meta.label : null
+                ].filter(Boolean);
+                return (
+                  <button
+                    key={day.toISOString()}
+                    {...extraProps}
+                    {...dayProps}
+                    className={clsx(
+                      'drp-day',
+                      {
+                        'drp-day--muted': outsideMonth,
+                        'drp-day--disabled': disabled,
+                        'drp-day--in-range': inRange,
+                        'drp-day--selected': active === 'selected',
+                        'drp-day--start': active === 'start',
+                        'drp-day--end': active === 'end',
+                        'drp-day--today': highlightToday && isToday,
+                        'drp-day--weekend': highlightWeekends && isWeekend,
+                        'drp-day--holiday': holiday,
+                        'drp-day--has-label': !renderDay && meta?.label != null
+                      },
+                      meta?.className,
+                      extraProps?.className
+                    )}
+                    title={extraProps?.title ?? meta?.title ?? holiday ?? undefined}
+                    aria-label={[dayProps['aria-label'], ...description].join(', ')}
+                  >
+                    {renderDay
+                      ? renderDay(day, state)
+                      : renderDayContent(day, holiday ? { dot: true, ...meta } : meta)}
+                  </button>
+                );
+              })}
+            </div>
+          ))}
+        </div>
+      </div>
+    );
   };
 
-  const applyPresetDate = (preset: PresetDate) => {
-    const d = preset.date();
-    const next = { startDate: d, endDate: d } as DateRange;
-    setTempRange(next);
-    // Sync calendar view to selected date
-    setViewDateStart(startOfMonth(d));
-    setViewDateEnd(addMonths(startOfMonth(d), 1));
-    if (autoApply) {
-      onChange(next);
-      if (closeOnSelect) setOpen(false);
+  const toggleJumpView = (calendarIndex: number) => {
+    if (jumpView?.calendarIndex === calendarIndex) {
+      setJumpView(null);
+      return;
     }
+    const year = calendars[calendarIndex].month.getFullYear();
+    setJumpView({ calendarIndex, stage: 'years', year, decade: year - (year % 10) });
   };
 
-  const handleApply = () => {
-    onChange(tempRange);
-    setOpen(false);
-  };
-
-  const handleCancel = () => {
-    setTempRange(value);
-    setOpen(false);
-  };
-
-  const renderCalendar = (
-    calendarIndex: number,
-    navOptions: { showPrev?: boolean; showNext?: boolean } = {}
-  ) => {
-    const { showPrev = false, showNext = false } = navOptions;
-    const viewDate = calendarIndex === 0 ? viewDateStart : viewDateEnd;
-    const month = viewDate;
-    const days = buildCalendar(month);
-
-    const monthNames = locale?.localize?.month
-      ? Array.from({ length: 12 }, (_, i) => locale.localize!.month(i, { width: 'wide' }))
-      : [
-          'January',
-          'February',
-          'March',
-          'April',
-          'May',
-          'June',
-          'July',
-          'August',
-          'September',
-          'October',
-          'November',
-          'December'
-        ];
-
-    const weekdayNames = locale?.localize?.day
-      ? Array.from({ length: 7 }, (_, i) => locale.localize!.day(i, { width: 'short' }))
-      : ['Su', 'Mo', 'Tu', 'We', 'Th', 'Fr', 'Sa'];
-
-    const handlePrev = () => {
-      if (!getCanGoPrev(calendarIndex)) return;
-      if (calendarIndex === 0) {
-        const newStart = addMonths(viewDateStart, -1);
-        if (separateCalendars && tempRange.endDate) {
-          // In From-To mode: left can't go before right
-          if (isBefore(startOfMonth(newStart), startOfMonth(tempRange.endDate))) {
-            setViewDateStart(newStart);
-          }
-        } else if (!singleDatePicker && !separateCalendars) {
-          // In free Range mode: keep right 1 month ahead
-          setViewDateStart(newStart);
-          setViewDateEnd(addMonths(newStart, 1));
-        } else {
-          setViewDateStart(newStart);
-        }
-      } else {
-        const newEnd = addMonths(viewDateEnd, -1);
-        if (separateCalendars && tempRange.startDate) {
-          // In From-To mode: right can't go before left
-          if (isAfter(startOfMonth(newEnd), startOfMonth(tempRange.startDate))) {
-            setViewDateEnd(newEnd);
-          }
-        } else if (!singleDatePicker && !separateCalendars) {
-          // In free Range mode: prevent right from crossing before left
-          if (!isBefore(startOfMonth(newEnd), addMonths(startOfMonth(viewDateStart), 1))) {
-            setViewDateEnd(newEnd);
-            setViewDateStart(addMonths(newEnd, -1));
-          }
-        } else {
-          setViewDateEnd(newEnd);
-        }
-      }
-    };
-
-    const handleNext = () => {
-      if (!getCanGoNext(calendarIndex)) return;
-      if (calendarIndex === 0) {
-        const newStart = addMonths(viewDateStart, 1);
-        if (separateCalendars && tempRange.endDate) {
-          // In From-To mode: left can't go after right
-          if (isBefore(startOfMonth(newStart), startOfMonth(tempRange.endDate))) {
-            setViewDateStart(newStart);
-          }
-        } else if (!singleDatePicker && !separateCalendars) {
-          // In free Range mode: keep right 1 month ahead
-          if (isBefore(startOfMonth(newStart), startOfMonth(viewDateEnd))) {
-            setViewDateStart(newStart);
-            setViewDateEnd(addMonths(newStart, 1));
-          }
-        } else {
-          setViewDateStart(newStart);
-        }
-      } else {
-        const newEnd = addMonths(viewDateEnd, 1);
-        if (separateCalendars && tempRange.startDate) {
-          // In From-To mode: right can't go before left
-          if (isAfter(startOfMonth(newEnd), startOfMonth(tempRange.startDate))) {
-            setViewDateEnd(newEnd);
-          }
-        } else if (!singleDatePicker && !separateCalendars) {
-          // In free Range mode: right moves freely
-          setViewDateEnd(newEnd);
-          setViewDateStart(addMonths(newEnd, -1));
-        } else {
-          setViewDateEnd(newEnd);
-        }
-      }
-    };
-
-    return (
-      <div className="drp-calendar">
-        {!singleDatePicker && separateCalendars && (
-          <div className="drp-calendar__label">{calendarIndex === 0 ? 'From' : 'To'}</div>
-        )}
-        <div className="drp-calendar__header">
-          {showPrev ? (
+  // Years: the decade plus one year either side; months: the twelve months of the picked year
+  const renderJumpView = (view: JumpView) => {
+    const { calendarIndex, stage, year, decade } = view;
+    const viewDate = calendars[calendarIndex].month;
+    const monthsOf = (y: number) => Array.from({ length: 12 }, (_, i) => new Date(y, i, 1));
+    const isMonthDisabled = (month: Date) =>
+      isSpanFullyDisabled(month, endOfMonth(month)) || isViewMonthBlocked(calendarIndex, month);
+    const isYearOutOfBounds = (y: number) =>
+      (!!minDate && y < minDate.getFullYear()) || (!!maxDate && y > maxDate.getFullYear());
+
+    if (stage === 'years') {
+      const years = Array.from({ length: 12 }, (_, i) => decade - 1 + i);
+      return (
+        <div className="drp-jump" role="group" aria-label={labels.chooseYear}>
+          <div className="drp-jump__header">
             <button
               type="button"
               className="drp-nav-btn"
-              aria-label="Previous month"
-              onClick={handlePrev}
-              disabled={!getCanGoPrev(calendarIndex)}
+              aria-label={labels.previousYears}
+              disabled={isYearOutOfBounds(decade - 1)}
+              onClick={() => setJumpView({ ...view, decade: decade - 10 })}
             >
               {'<'}
             </button>
-          ) : (
-            <span className="drp-nav-spacer" />
-          )}
-          <div className="drp-calendar__picker">
-            <div className="drp-custom-select">
-              <button
-                type="button"
-                className="drp-custom-select__trigger"
-                onClick={() => {
-                  setOpenMonthDropdown(null);
-                  setOpenYearDropdown(openYearDropdown === calendarIndex ? null : calendarIndex);
-                }}
-              >
-                {viewDate.getFullYear()}
-              </button>
-              {openYearDropdown === calendarIndex && (
-                <div className="drp-custom-select__dropdown">
-                  {Array.from({ length: 11 }, (_, i) => {
-                    const year = new Date().getFullYear() - 5 + i;
-                    const isDisabled = (() => {
-                      if (singleDatePicker) return false;
-                      const testDate = new Date(year, viewDate.getMonth(), 1);
-                      if (separateCalendars) {
-                        if (calendarIndex === 0) {
-                          // Left calendar: can't select year >= right calendar's endDate
-                          return tempRange.endDate && !isBefore(startOfMonth(testDate), startOfMonth(tempRange.endDate));
-                        } else {
-                          // Right calendar: can't select year <= left calendar's startDate
-                          return tempRange.startDate && !isAfter(startOfMonth(testDate), startOfMonth(tempRange.startDate));
-                        }
-                      }
-                      if (calendarIndex === 0) {
-                        // Left calendar: can't select year/month >= right calendar
-                        return !isBefore(startOfMonth(testDate), startOfMonth(viewDateEnd));
-                      } else {
-                        // Right calendar: can't select year/month <= left calendar
-                        return !isAfter(startOfMonth(testDate), startOfMonth(viewDateStart));
-                      }
-                    })();
-                    return (
-                      <button
-                        key={year}
-                        type="button"
-                        className={clsx('drp-custom-select__option', {
-                          'drp-custom-select__option--active': year === viewDate.getFullYear(),
-                          'drp-custom-select__option--disabled': isDisabled
-                        })}
-                        onClick={() => {
-                          if (isDisabled) return;
-                          const newDate = new Date(year, viewDate.getMonth(), 1);
-                          handleMonthYearChange(calendarIndex, newDate);
-                          setOpenYearDropdown(null);
-                          setOpenMonthDropdown(null);
-                        }}
-                        disabled={isDisabled ?? false}
-                      >
-                        {year}
-                      </button>
-                    );
-                  })}
-                </div>
-              )}
-            </div>
-            <div className="drp-custom-select">
-              <button
-                type="button"
-                className="drp-custom-select__trigger"
-                onClick={() => {
-                  setOpenYearDropdown(null);
-                  setOpenMonthDropdown(openMonthDropdown === calendarIndex ? null : calendarIndex);
-                }}
-              >
-                {monthNames[viewDate.getMonth()]}
-              </button>
-              {openMonthDropdown === calendarIndex && (
-                <div className="drp-custom-select__dropdown">
-                  {monthNames.map((monthName, idx) => {
-                    const isDisabled = (() => {
-                      if (singleDatePicker) return false;
-                      const testDate = new Date(viewDate.getFullYear(), idx, 1);
-                      if (separateCalendars) {
-                        if (calendarIndex === 0) {
-                          // Left calendar: can't select month >= right calendar's endDate
-                          return tempRange.endDate && !isBefore(startOfMonth(testDate), startOfMonth(tempRange.endDate));
-                        } else {
-                          // Right calendar: can't select month <= left calendar's startDate
-                          return tempRange.startDate && !isAfter(startOfMonth(testDate), startOfMonth(tempRange.startDate));
-                        }
-                      }
-                      if (calendarIndex === 0) {
-                        // Left calendar: can't select year/month >= right calendar
-                        return !isBefore(startOfMonth(testDate), startOfMonth(viewDateEnd));
-                      } else {
-                        // Right calendar: can't select year/month <= left calendar
-                        return !isAfter(startOfMonth(testDate), startOfMonth(viewDateStart));
-                      }
-                    })();
-                    return (
-                      <button
-                        key={monthName}
-                        type="button"
-                        className={clsx('drp-custom-select__option', {
-                          'drp-custom-select__option--active': idx === viewDate.getMonth(),
-                          'drp-custom-select__option--disabled': isDisabled
-                        })}
-                        onClick={() => {
-                          if (isDisabled) return;
-                          const newDate = new Date(viewDate.getFullYear(), idx, 1);
-                          handleMonthYearChange(calendarIndex, newDate);
-                          setOpenMonthDropdown(null);
-                          setOpenYearDropdown(null);
-                        }}
-                        disabled={isDisabled ?? false}
-                      >
-                        {monthName}
-                      </button>
-                    );
-                  })}
-                </div>
-              )}
-            </div>
-          </div>
-          {showNext ? (
+            <span className="drp-jump__title">
+              {decade} – {decade + 9}
+            </span>
             <button
               type="button"
               className="drp-nav-btn"
-              aria-label="Next month"
-              onClick={handleNext}
-              disabled={!getCanGoNext(calendarIndex)}
+              aria-label={labels.nextYears}
+              disabled={isYearOutOfBounds(decade + 10)}
+              onClick={() => setJumpView({ ...view, decade: decade + 10 })}
             >
               {'>'}
             </button>
-          ) : (
-            <span className="drp-nav-spacer" />
-          )}
+          </div>
+          <div className="drp-modal__months">
+            {years.map((y) => {
+              const isDisabled = isYearOutOfBounds(y) || monthsOf(y).every(isMonthDisabled);
+              const isCurrent = y === viewDate.getFullYear();
+              return (
+                <button
+                  key={y}
+                  type="button"
+                  className={clsx('drp-modal__month-btn', {
+                    'drp-modal__month-btn--active': isCurrent,
+                    'drp-modal__month-btn--muted': y < decade || y > decade + 9
+                  })}
+                  aria-pressed={isCurrent}
+                  autoFocus={isCurrent}
+                  disabled={isDisabled}
+                  onClick={() => setJumpView({ ...view, stage: 'months', year: y })}
+                >
+                  {y}
+                </button>
+              );
+            })}
+          </div>
         </div>
-        <div className="drp-calendar__weekdays">
-          {weekdayNames.map((d) => (
-            <span key={d}>{d}</span>
-          ))}
+      );
+    }
+
+    return (
+      <div className="drp-jump" role="group" aria-label={labels.chooseMonth}>
+        <div className="drp-jump__header">
+          <button
+            type="button"
+            className="drp-nav-btn"
+            aria-label={labels.previousYear}
+            disabled={isYearOutOfBounds(year - 1)}
+            onClick={() => setJumpView({ ...view, year: year - 1 })}
+          >
+            {'<'}
+          </button>
+          <button
+            type="button"
+            className="drp-calendar__title drp-calendar__title--clickable"
+            aria-label={`${labels.chooseYear}, ${year}`}
+            onClick={() => setJumpView({ ...view, stage: 'years', decade: year - (year % 10) })}
+          >
+            {year}
+          </button>
+          <button
+            type="button"
+            className="drp-nav-btn"
+            aria-label={labels.nextYear}
+            disabled={isYearOutOfBounds(year + 1)}
+            onClick={() => setJumpView({ ...view, year: year + 1 })}
+          >
+            {'>'}
+          </button>
         </div>
-        <div className="drp-calendar__grid">
-          {days.map((day) => {
-            const disabled = disableDate(day);
-            const active = isActive(day);
-            const inRange = singleDatePicker ? false : isInRange(day);
+        <div className="drp-modal__months">
+          {monthsOf(year).map((month) => {
+            const isCurrent = isSameMonth(month, viewDate);
             return (
               <button
-                key={day.toISOString()}
+                key={month.getMonth()}
                 type="button"
-                className={clsx('drp-day', {
-                  'drp-day--muted': !isSameMonth(day, month),
-                  'drp-day--disabled': disabled,
-                  'drp-day--in-range': inRange,
-                  'drp-day--start': active === 'start',
-                  'drp-day--end': active === 'end'
+                className={clsx('drp-modal__month-btn', {
+                  'drp-modal__month-btn--active': isCurrent
                 })}
-                onClick={() => handleDayClick(day, calendarIndex)}
-                onMouseEnter={() => !singleDatePicker && !separateCalendars && setHoverDate(day)}
-                onMouseLeave={() => !singleDatePicker && setHoverDate(null)}
-                disabled={disabled}
+                aria-label={monthNames[month.getMonth()]}
+                aria-pressed={isCurrent}
+                autoFocus={isCurrent}
+                disabled={isMonthDisabled(month)}
+                onClick={() => {
+                  setViewMonth(calendarIndex, month);
+                  setJumpView(null);
+                }}
               >
-                {format(day, 'd', { locale })}
+                {format(month, 'MMM', { locale })}
               </button>
             );
           })}
@@ -722,135 +590,266 @@ const DateRangePicker = ({
     );
   };
 
-  return (
-    <div className={clsx('drp', { 'drp--single': singleDatePicker }, className)} ref={containerRef}>
-      <div className="drp-trigger-wrapper">
-        {editable ? (
-          <input
-            type="text"
-            className="drp-input"
-            value={textValue}
-            onChange={(e) => setTextValue(e.target.value)}
-            onClick={() => setOpen((prev) => !prev)}
-            onBlur={applyText}
-            onKeyDown={(e) => {
-              if (e.key === 'Enter') {
-                applyText();
-              }
-            }}
-            placeholder={singleDatePicker ? displayFormat : `${displayFormat} ~ ${displayFormat}`}
-            style={
-              triggerWidth
-                ? { width: typeof triggerWidth === 'number' ? `${triggerWidth}px` : triggerWidth }
-                : undefined
-            }
-          />
-        ) : (
-          <button
-            type="button"
-            className="drp-trigger"
-            style={
-              triggerWidth
-                ? { width: typeof triggerWidth === 'number' ? `${triggerWidth}px` : triggerWidth }
-                : undefined
-            }
-            onClick={() => setOpen((prev) => !prev)}
-          >
-            {label}
-          </button>
+  const renderCalendar = (
+    calendarIndex: number,
+    navOptions: { showPrev?: boolean; showNext?: boolean } = {}
+  ) => {
+    if (granularity === 'month' || granularity === 'quarter' || granularity === 'year') {
+      return renderPeriodCalendar(granularity);
+    }
+    const { showPrev = false, showNext = false } = navOptions;
+    const viewDate = calendars[calendarIndex].month;
+
+    return (
+      <div className="drp-calendar">
+        {!singleDatePicker && separateCalendars && (
+          <div className="drp-calendar__label">{calendarIndex === 0 ? labels.from : labels.to}</div>
         )}
-        {showClearButton && (value.startDate || value.endDate) && (
+        <div className="drp-calendar__header">
+          {showPrev ? (
+            <button className="drp-nav-btn" {...picker.getPrevButtonProps(calendarIndex)}>
+              {'<'}
+            </button>
+          ) : (
+            <span className="drp-nav-spacer" />
+          )}
           <button
             type="button"
-            className="drp-clear-btn"
-            onClick={(e) => {
-              e.stopPropagation();
-              onChange({ startDate: null, endDate: null });
-              setTempRange({ startDate: null, endDate: null });
-              setTextValue('');
-            }}
-            aria-label="Clear dates"
+            className="drp-calendar__title drp-calendar__title--clickable"
+            aria-label={`${labels.chooseMonthYear}, ${format(viewDate, 'MMMM yyyy', { locale })}`}
+            aria-expanded={jumpView?.calendarIndex === calendarIndex}
+            onClick={() => toggleJumpView(calendarIndex)}
           >
-            ×
+            {monthNames[viewDate.getMonth()]} {viewDate.getFullYear()}
           </button>
-        )}
+          {showNext ? (
+            <button className="drp-nav-btn" {...picker.getNextButtonProps(calendarIndex)}>
+              {'>'}
+            </button>
+          ) : (
+            <span className="drp-nav-spacer" />
+          )}
+        </div>
+        {jumpView?.calendarIndex === calendarIndex
+          ? renderJumpView(jumpView)
+          : renderDayGrid(calendarIndex)}
+        {timePicker && calendarIndex === 0 && renderTimePicker(0)}
+        {timePicker &&
+          !singleDatePicker &&
+          calendarIndex === calendars.length - 1 &&
+          renderTimePicker(1)}
       </div>
+    );
+  };
 
-      {open && (
-        <div
-          className={clsx('drp-popover', {
-            'drp-popover--no-presets': !showPresets,
-            'drp-popover--single': singleDatePicker
-          })}
-        >
-          <div className="drp-popover__body">
-            {showPresets && (
-              <div className="drp-presets">
-                {(singleDatePicker ? (presetDates ?? defaultSinglePresets) : presetRanges).map(
-                  (preset, index) => (
-                    <button
-                      key={preset.label}
-                      type="button"
-                      className={clsx('drp-preset', { active: matchedPresetIndex === index })}
-                      onClick={() =>
-                        singleDatePicker
-                          ? applyPresetDate(preset as PresetDate)
-                          : applyPreset(preset as PresetRange)
-                      }
-                    >
-                      {preset.label}
-                    </button>
-                  )
-                )}
-              </div>
-            )}
-
-            <div className="drp-calendars">
-              {renderCalendar(0, { showPrev: true, showNext: true })}
-              {!singleDatePicker && renderCalendar(1, { showPrev: true, showNext: true })}
+  // Mobile layout: the visible months stacked in one scrolling column, paged from the top
+  const renderMonthList = () => (
+    <>
+      <div className="drp-month-list__nav">
+        <button className="drp-nav-btn" {...picker.getPrevButtonProps(0)}>
+          {'<'}
+        </button>
+        <button className="drp-nav-btn" {...picker.getNextButtonProps(0)}>
+          {'>'}
+        </button>
+      </div>
+      {calendars.map(({ month }, calendarIndex) => (
+        <div key={month.toISOString()} className="drp-calendar">
+          <div className="drp-calendar__header">
+            <div className="drp-calendar__title">
+              {monthNames[month.getMonth()]} {month.getFullYear()}
             </div>
           </div>
+          {renderDayGrid(calendarIndex)}
+        </div>
+      ))}
+    </>
+  );
 
-          {!autoApply && (
-            <div className="drp-actions">
-              {showClearButton && (
+  const renderPopover = () => {
+    const popover = (
+      <div
+        // A locked inline calendar stays visible but takes no clicks or focus
+        inert={inline && (disabled || readOnly)}
+        className={clsx('drp-popover', {
+          'drp-popover--no-presets': !showPresets,
+          'drp-popover--single': singleDatePicker,
+          'drp-popover--inline': inline,
+          'drp-popover--mobile': mobile
+        })}
+        {...picker.getPopoverProps()}
+      >
+        <div className="drp-popover__body">
+          {showPresets && (
+            <div className="drp-presets">
+              {presets.map((preset, index) => (
                 <button
-                  type="button"
-                  className="drp-btn"
-                  onClick={() => {
-                    setTempRange({ startDate: null, endDate: null });
-                    onChange({ startDate: null, endDate: null });
-                    setOpen(false);
-                  }}
+                  key={preset.label}
+                  className={clsx('drp-preset', { active: matchedPresetIndex === index })}
+                  {...picker.getPresetProps(index)}
                 >
-                  Clear
+                  {preset.label}
                 </button>
-              )}
-              <button type="button" className="drp-btn" onClick={handleCancel}>
-                Cancel
-              </button>
-              <button type="button" className="drp-btn drp-btn--apply" onClick={handleApply}>
-                Apply
-              </button>
+              ))}
             </div>
           )}
-          {autoApply && showClearButton && (
-            <div className="drp-actions">
+
+          {mobile && !periodView ? (
+            <div className="drp-calendars drp-calendars--list">{renderMonthList()}</div>
+          ) : (
+            <div
+              className={clsx('drp-calendars', { 'drp-calendars--periods': periodView })}
+              style={calendars.length > 1 ? calendarsStyle : undefined}
+            >
+              {calendars.map(({ month }, calendarIndex) => (
+                // Linked panes page from the outer arrows only
+                <Fragment key={month.toISOString()}>
+                  {renderCalendar(calendarIndex, {
+                    showPrev: !linkedPaging || calendarIndex === 0,
+                    showNext: !linkedPaging || calendarIndex === calendars.length - 1
+                  })}
+                </Fragment>
+              ))}
+            </div>
+          )}
+        </div>
+        {mobile && !periodView && timePicker && (
+          <div className="drp-month-list__times">
+            {renderTimePicker(0)}
+            {!singleDatePicker && renderTimePicker(1)}
+          </div>
+        )}
+
+        {!autoApply && (
+          <div className="drp-actions">
+            {showClearButton && (
               <button
                 type="button"
                 className="drp-btn"
                 onClick={() => {
-                  setTempRange({ startDate: null, endDate: null });
-                  onChange({ startDate: null, endDate: null });
-                  setOpen(false);
+                  clear();
+                  setOpen(false, 'clear');
                 }}
               >
-                Clear
+                {labels.clear}
               </button>
+            )}
+            <button type="button" className="drp-btn" onClick={cancel}>
+              {labels.cancel}
+            </button>
+            <button type="button" className="drp-btn drp-btn--apply" onClick={apply}>
+              {labels.apply}
+            </button>
+          </div>
+        )}
+        {autoApply && showClearButton && (
+          <div className="drp-actions">
+            <button
+              type="button"
+              className="drp-btn"
+              onClick={() => {
+                clear();
+                setOpen(false, 'clear');
+              }}
+            >
+              {labels.clear}
+            </button>
+          </div>
+        )}
+      </div>
+    );
+    if (!mobile || inline) return popover;
+    // Bottom sheet: a tap on the backdrop closes like an outside click
+    return (
+      <div
+        className="drp-modal-overlay drp-modal-overlay--sheet"
+        onClick={(event) => {
+          if (event.target === event.currentTarget) setOpen(false, 'outsideClick');
+        }}
+      >
+        {popover}
+      </div>
+    );
+  };
+
+  return (
+    <div
+      className={clsx(
+        'drp',
+        {
+          'drp--single': singleDatePicker,
+          'drp--inline': inline,
+          'drp--disabled': disabled,
+          'drp--readonly': readOnly
+        },
+        className
+      )}
+      {...picker.getContainerProps()}
+    >
+      {!inline && (
+        <div className="drp-trigger-wrapper">
+          {editable && segmentsSupported ? (
+            <div
+              key={segmentsKey}
+              className={clsx('drp-input', 'drp-segments', { 'drp-input--invalid': inputError })}
+              style={triggerStyle}
+              {...picker.getSegmentsProps()}
+            >
+              <DateSegments {...picker.getSegmentProps('start')} />
+              {!singleDatePicker && (
+                <>
+                  <span className="drp-segments__separator" aria-hidden="true">
+                    {rangeSeparator}
+                  </span>
+                  <DateSegments {...picker.getSegmentProps('end')} />
+                </>
+              )}
             </div>
+          ) : editable ? (
+            <input
+              className={clsx('drp-input', { 'drp-input--invalid': inputError })}
+              style={triggerStyle}
+              {...picker.getInputProps()}
+            />
+          ) : (
+            <button className="drp-trigger" style={triggerStyle} {...picker.getTriggerProps()}>
+              {label}
+            </button>
+          )}
+          {showClearButton && hasValue && !disabled && !readOnly && (
+            <button
+              type="button"
+              className="drp-clear-btn"
+              onClick={(e) => {
+                e.stopPropagation();
+                clear();
+                setTextValue('');
+              }}
+              aria-label={labels.clearDates}
+            >
+              ×
+            </button>
           )}
         </div>
       )}
+
+      {open && !portalTarget && renderPopover()}
+      {open &&
+        portalTarget &&
+        createPortal(
+          // Wrapper carries the picker's modifier classes into the portal target
+          <div className={clsx('drp', 'drp--portal', { 'drp--single': singleDatePicker })}>
+            {renderPopover()}
+          </div>,
+          portalTarget
+        )}
+      {picker.getHiddenInputProps().map((field) => (
+        <input key={field.name} {...field} />
+      ))}
+      {required && <input className="drp-validation-input" {...picker.getValidationInputProps()} />}
+      <div className="drp-sr-only" role="status" aria-live="polite">
+        {announcement}
+      </div>
     </div>
   );
 };
@@ -0,0 +1,238 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import type { KeyboardEvent as ReactKeyboardEvent } from 'react';
+import { format, getDaysInMonth } from 'date-fns';
+import type { Locale } from 'date-fns';
+import clsx from 'clsx';
+import type { DateRangePickerLabels } from '../hooks/useDateRangePicker';
+import { segmentBounds, tokenizeSegments, type SegmentType } from './segmentTokens';
+
+const readSegment = (date: Date, type: SegmentType) => {
+  switch (type) {
+    case 'year':
+      return date.getFullYear();
+    case 'month':
+      return date.getMonth() + 1;
+    case 'day':
+      return date.getDate();
+    case 'hour':
+      return date.getHours();
+    case 'hour12':
+      return date.getHours() % 12 || 12;
+    case 'minute':
+      return date.getMinutes();
+    case 'second':
+      return date.getSeconds();
+    case 'meridiem':
+      return date.getHours() >= 12 ? 1 : 0;
+  }
+};
+
+// Build a date from filled segments; parts missing from the format default to the start of the day
+const buildDate = (segments: { type: SegmentType; value: number }[]) => {
+  const get = (type: SegmentType) => segments.find((s) => s.type === type)?.value;
+  const year = get('year') ?? new Date().getFullYear();
+  const month = (get('month') ?? 1) - 1;
+  const day = Math.min(get('day') ?? 1, getDaysInMonth(new Date(year, month, 1)));
+  const hour12 = get('hour12');
+  const hours =
+    get('hour') ?? (hour12 !== undefined ? (hour12 % 12) + (get('meridiem') ? 12 : 0) : 0);
+  const date = new Date(year, month, day, hours, get('minute') ?? 0, get('second') ?? 0);
+  // Keep years below 100 from being mapped to 19xx
+  date.setFullYear(year);
+  return date;
+};
+
+type Props = {
+  /** date-fns format the segments are built from; must pass `tokenizeSegments` */
+  pattern: string;
+  date: Date | null;
+  labels: DateRangePickerLabels;
+  groupLabel: string;
+  locale?: Locale;
+  disabled?: boolean;
+  /** Segments stay focusable and readable but ignore edits */
+  readOnly?: boolean;
+  /** Called with the formatted date once every segment is filled, or null while incomplete */
+  onChange: (text: string | null) => void;
+  onEnter: () => void;
+};
+
+const DateSegments = ({
+  pattern,
+  date,
+  labels,
+  groupLabel,
+  locale,
+  disabled = false,
+  readOnly = false,
+  onChange,
+  onEnter
+}: Props) => {
+  const tokens = useMemo(() => tokenizeSegments(pattern) ?? [], [pattern]);
+  const segmentTypes = useMemo(
+    () => tokens.flatMap((t) => (t.kind === 'segment' ? [t.type] : [])),
+    [tokens]
+  );
+  const time = date ? date.getTime() : null;
+  const [values, setValues] = useState<(number | null)[]>([]);
+  // Digits typed so far into the focused segment
+  const bufferRef = useRef('');
+
+  useEffect(() => {
+    setValues(
+      segmentTypes.map((type) => (time === null ? null : readSegment(new Date(time), type)))
+    );
+  }, [time, segmentTypes]);
+
+  const meridiemText = (value: number) =>
+    format(new Date(2000, 0, 1, value ? 12 : 0), 'a', { locale });
+
+  const segmentLabels: Record<SegmentType, string> = {
+    year: labels.year,
+    month: labels.month,
+    day: labels.day,
+    hour: labels.hour,
+    hour12: labels.hour,
+    minute: labels.minute,
+    second: labels.second,
+    meridiem: labels.meridiem
+  };
+
+  // Move focus across every segment in the surrounding group, so the end date follows the start
+  const focusSibling = (current: HTMLElement, offset: number) => {
+    const group = current.closest('.drp-segments');
+    if (!group) return;
+    const all = Array.from(group.querySelectorAll<HTMLElement>('.drp-segment'));
+    all[all.indexOf(current) + offset]?.focus();
+  };
+
+  // `typing` marks a segment still waiting for more digits, so "2" is not taken as year 2
+  const update = (index: number, value: number | null, typing = false) => {
+    const next = values.map((v, i) => (i === index ? value : v));
+    setValues(next);
+    if (typing || next.some((v) => v === null)) {
+      onChange(null);
+      return;
+    }
+    const built = buildDate(segmentTypes.map((type, i) => ({ type, value: next[i] as number })));
+    onChange(format(built, pattern, { locale }));
+  };
+
+  const handleKeyDown = (event: ReactKeyboardEvent<HTMLSpanElement>, index: number) => {
+    const type = segmentTypes[index];
+    const { min, max, digits } = segmentBounds[type];
+    const current = values[index];
+    const target = event.currentTarget;
+    // Locked segments can still be walked through
+    if ((disabled || readOnly) && event.key !== 'ArrowLeft' && event.key !== 'ArrowRight') return;
+
+    if (event.key === 'ArrowUp' || event.key === 'ArrowDown') {
+      event.preventDefault();
+      bufferRef.current = '';
+      const step = event.key === 'ArrowUp' ? 1 : -1;
+      const start = current ?? (date ? readSegment(date, type) : readSegment(new Date(), type));
+      const wrapped =
+        current === null ? start : ((start - min + step + max - min + 1) % (max - min + 1)) + min;
+      update(index, wrapped);
+      return;
+    }
+    if (event.key === 'ArrowLeft' || event.key === 'ArrowRight') {
+      event.preventDefault();
+      bufferRef.current = '';
+      focusSibling(target, event.key === 'ArrowLeft' ? -1 : 1);
+      return;
+    }
+    if (event.key === 'Backspace' || event.key === 'Delete') {
+      event.preventDefault();
+      bufferRef.current = '';
+      update(index, null);
+      return;
+    }
+    if (event.key === 'Enter') {
+      onEnter();
+      return;
+    }
+    if (type === 'meridiem') {
+      const key = event.key.toLowerCase();
+      const am = meridiemText(0).toLowerCase()[0];
+      const pm = meridiemText(1).toLowerCase()[0];
+      if (key === am || key === pm) {
+        event.preventDefault();
+        update(index, key === pm ? 1 : 0);
+        focusSibling(target, 1);
+      }
+      return;
+    }
+    if (/^\d$/.test(event.key)) {
+      event.preventDefault();
+      const buffer = bufferRef.current + event.key;
+      const typed = Number(buffer);
+      const full = buffer.length >= digits || typed * 10 > max;
+      bufferRef.current = full ? '' : buffer;
+      // Show partial input (e.g. a leading 0 for a month) until the segment is full
+      update(index, full ? Math.min(Math.max(typed, min), max) : typed, !full);
+      if (full) focusSibling(target, 1);
+      return;
+    }
+    // Typing a separator jumps to the next segment; the separators themselves are fixed
+    if (event.key.length === 1 && /[^\p{L}\p{N}]/u.test(event.key)) {
+      event.preventDefault();
+      bufferRef.current = '';
+      focusSibling(target, 1);
+    }
+  };
+
+  let segmentIndex = -1;
+  return (
+    <span className="drp-segments__date" role="group" aria-label={groupLabel}>
+      {tokens.map((token, i) => {
+        if (token.kind === 'literal') {
+          return (
+            <span key={i} className="drp-segments__literal" aria-hidden="true">
+              {token.text}
+            </span>
+          );
+        }
+        segmentIndex += 1;
+        const index = segmentIndex;
+        const value = values[index] ?? null;
+        const { min, max, digits } = segmentBounds[token.type];
+        const display =
+          value === null
+            ? token.pattern
+            : token.type === 'meridiem'
+              ? meridiemText(value)
+              : String(value).padStart(token.pattern.length > 1 ? digits : 1, '0');
+        return (
+          <span
+            key={i}
+            role="spinbutton"
+            tabIndex={disabled ? -1 : 0}
+            className={clsx('drp-segment', { 'drp-segment--placeholder': value === null })}
+            aria-label={segmentLabels[token.type]}
+            aria-disabled={disabled || undefined}
+            aria-readonly={readOnly || undefined}
+            aria-valuemin={min}
+            aria-valuemax={max}
+            aria-valuenow={value ?? undefined}
+            aria-valuetext={value === null ? undefined : display}
+            onKeyDown={(e) => handleKeyDown(e, index)}
+            onFocus={() => {
+              bufferRef.current = '';
+            }}
+            onBlur={() => {
+              // Leaving a half-typed segment settles it, e.g. "2" in the day segment becomes 2
+              if (!bufferRef.current || value === null) return;
+              bufferRef.current = '';
+              update(index, Math.min(Math.max(value, min), max));
+            }}
+          >
+            {display}
+          </span>
+        );
+      })}
+    </span>
+  );
+};
+
+export default DateSegments;
@@ -0,0 +1,75 @@
+export type SegmentType =
+  | 'year'
+  | 'month'
+  | 'day'
+  | 'hour'
+  | 'hour12'
+  | 'minute'
+  | 'second'
+  | 'meridiem';
+
+type Token =
+  | { kind: 'literal'; text: string }
+  | { kind: 'segment'; type: SegmentType; pattern: string };
+
+const segmentPatterns: Record<string, SegmentType> = {
+  yyyy: 'year',
+  MM: 'month',
+  M: 'month',
+  dd: 'day',
+  d: 'day',
+  HH: 'hour',
+  H: 'hour',
+  hh: 'hour12',
+  h: 'hour12',
+  mm: 'minute',
+  m: 'minute',
+  ss: 'second',
+  s: 'second',
+  a: 'meridiem'
+};
+
+export const segmentBounds: Record<SegmentType, { min: number; max: number; digits: number }> = {
+  year: { min: 1, max: 9999, digits: 4 },
+  month: { min: 1, max: 12, digits: 2 },
+  day: { min: 1, max: 31, digits: 2 },
+  hour: { min: 0, max: 23, digits: 2 },
+  hour12: { min: 1, max: 12, digits: 2 },
+  minute: { min: 0, max: 59, digits: 2 },
+  second: { min: 0, max: 59, digits: 2 },
+  meridiem: { min: 0, max: 1, digits: 1 }
+};
+
+/**
+ * Split a date-fns format into editable numeric segments and literal separators.
+ * Returns null when the format uses tokens a segment cannot edit (e.g. `MMM`, `EEE`).
+ */
+export const tokenizeSegments = (pattern: string): Token[] | null => {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < pattern.length) {
+    const char = pattern[i];
+    if (char === "'") {
+      const close = pattern.indexOf("'", i + 1);
+      const end = close === -1 ? pattern.length : close;
+      tokens.push({ kind: 'literal', text: pattern.slice(i + 1, end) || "'" });
+      i = end + 1;
+      continue;
+    }
+    if (/[a-zA-Z]/.test(char)) {
+      let j = i;
+      while (pattern[j] === char) j += 1;
+      const run = pattern.slice(i, j);
+      const type = segmentPatterns[run];
+      if (!type) return null;
+      tokens.push({ kind: 'segment', type, pattern: run });
+      i = j;
+      continue;
+    }
+    const last = tokens[tokens.length - 1];
+    if (last?.kind === 'literal') last.text += char;
+    else tokens.push({ kind: 'literal', text: char });
+    i += 1;
+  }
+  return tokens;
+};
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { createHolidayCalendar, holidayCalendars, listHolidays } from './holidays';
+
+const dateOf = (holidays: { date: Date; name: string }[], name: string) =>
+  holidays.find((holiday) => holiday.name === name)?.date.toDateString();
+
+describe('holidayCalendars', () => {
+  it('resolves nth and last weekdays of a month', () => {
+    const us = holidayCalendars.US(2026);
+    expect(dateOf(us, 'Thanksgiving Day')).toBe('Thu Nov 26 2026');
+    expect(dateOf(us, 'Memorial Day')).toBe('Mon May 25 2026');
+  });
+
+  it('resolves days relative to Easter', () => {
+    expect(dateOf(holidayCalendars.GB(2026), 'Good Friday')).toBe('Fri Apr 03 2026');
+    expect(dateOf(holidayCalendars.DE(2026), 'Whit Monday')).toBe('Mon May 25 2026');
+  });
+});
+
+describe('createHolidayCalendar', () => {
+  it('builds a per-year provider from rules', () => {
+    const calendar = createHolidayCalendar([
+      { name: 'Easter', easterOffset: 0 },
+      { name: 'Founding Day', month: 3, day: 14 }
+    ]);
+    expect(calendar(2024).map((holiday) => holiday.date.toDateString())).toEqual([
+      'Sun Mar 31 2024',
+      'Thu Mar 14 2024'
+    ]);
+  });
+});
+
+describe('listHolidays', () => {
+  it('filters a fixed list to the requested year', () => {
+    const list = [
+      { date: new Date(2025, 11, 31), name: 'Eve' },
+      { date: new Date(2026, 0, 2), name: 'Office closed' }
+    ];
+    expect(listHolidays(list, 2026)).toEqual([list[1]]);
+  });
+});
@@ -0,0 +1,109 @@
+import { addDays, lastDayOfMonth } from 'date-fns';
+
+export type Holiday = {
+  date: Date;
+  name: string;
+};
+
+/** A fixed list of holidays, or a function listing the holidays of a year */
+export type HolidayProvider = Holiday[] | ((year: number) => Holiday[]);
+
+/**
+ * How a holiday falls each year. Months are 1-12 and weekdays 0 (Sunday) to 6; `nth: -1` is
+ * the last such weekday of the month and `easterOffset` counts days from Western Easter Sunday.
+ */
+export type HolidayRule =
+  | { name: string; month: number; day: number }
+  | { name: string; month: number; weekday: number; nth: number }
+  | { name: string; easterOffset: number };
+
+// Anonymous Gregorian algorithm (Meeus/Jones/Butcher)
+const easterSunday = (year: number) => {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return new Date(year, month - 1, day);
+};
+
+const nthWeekday = (year: number, month: number, weekday: number, nth: number) => {
+  if (nth < 0) {
+    const last = lastDayOfMonth(new Date(year, month - 1, 1));
+    return addDays(last, -((last.getDay() - weekday + 7) % 7));
+  }
+  const first = new Date(year, month - 1, 1);
+  return addDays(first, ((weekday - first.getDay() + 7) % 7) + (nth - 1) * 7);
+};
+
+const resolveRule = (rule: HolidayRule, year: number) => {
+  if ('easterOffset' in rule) return addDays(easterSunday(year), rule.easterOffset);
+  if ('weekday' in rule) return nthWeekday(year, rule.month, rule.weekday, rule.nth);
+  return new Date(year, rule.month - 1, rule.day);
+};
+
+/** Holidays a provider gives for one year */
+export const listHolidays = (provider: HolidayProvider, year: number) =>
+  typeof provider === 'function'
+    ? provider(year)
+    : provider.filter((h) => h.date.getFullYear() === year);
+
+/** Turn rules into a provider for the `holidays` prop */
+export const createHolidayCalendar =
+  (rules: HolidayRule[]) =>
+  (year: number): Holiday[] =>
+    rules.map((rule) => ({ date: resolveRule(rule, year), name: rule.name }));
+
+// Dates are the holidays themselves; days off observed in lieu of weekend holidays are not added
+const usRules: HolidayRule[] = [
+  { name: "New Year's Day", month: 1, day: 1 },
+  { name: 'Martin Luther King Jr. Day', month: 1, weekday: 1, nth: 3 },
+  { name: "Washington's Birthday", month: 2, weekday: 1, nth: 3 },
+  { name: 'Memorial Day', month: 5, weekday: 1, nth: -1 },
+  { name: 'Juneteenth', month: 6, day: 19 },
+  { name: 'Independence Day', month: 7, day: 4 },
+  { name: 'Labor Day', month: 9, weekday: 1, nth: 1 },
+  { name: 'Columbus Day', month: 10, weekday: 1, nth: 2 },
+  { name: 'Veterans Day', month: 11, day: 11 },
+  { name: 'Thanksgiving Day', month: 11, weekday: 4, nth: 4 },
+  { name: 'Christmas Day', month: 12, day: 25 }
+];
+
+const gbRules: HolidayRule[] = [
+  { name: "New Year's Day", month: 1, day: 1 },
+  { name: 'Good Friday', easterOffset: -2 },
+  { name: 'Easter Monday', easterOffset: 1 },
+  { name: 'Early May bank holiday', month: 5, weekday: 1, nth: 1 },
+  { name: 'Spring bank holiday', month: 5, weekday: 1, nth: -1 },
+  { name: 'Summer bank holiday', month: 8, weekday: 1, nth: -1 },
+  { name: 'Christmas Day', month: 12, day: 25 },
+  { name: 'Boxing Day', month: 12, day: 26 }
+];
+
+const deRules: HolidayRule[] = [
+  { name: "New Year's Day", month: 1, day: 1 },
+  { name: 'Good Friday', easterOffset: -2 },
+  { name: 'Easter Monday', easterOffset: 1 },
+  { name: 'Labour Day', month: 5, day: 1 },
+  { name: 'Ascension Day', easterOffset: 39 },
+  { name: 'Whit Monday', easterOffset: 50 },
+  { name: 'German Unity Day', month: 10, day: 3 },
+  { name: 'Christmas Day', month: 12, day: 25 },
+  { name: "St. Stephen's Day", month: 12, day: 26 }
+];
+
+/** Built-in nationwide public holidays: US federal, England and Wales, and Germany */
+export const holidayCalendars = {
+  US: createHolidayCalendar(usRules),
+  GB: createHolidayCalendar(gbRules),
+  DE: createHolidayCalendar(deRules)
+};
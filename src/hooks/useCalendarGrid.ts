@@ -0,0 +1,126 @@
+import { useMemo } from 'react';
+import {
+  addDays,
+  endOfMonth,
+  endOfWeek,
+  getISOWeek,
+  getWeek,
+  isAfter,
+  isSameMonth,
+  startOfMonth,
+  startOfWeek
+} from 'date-fns';
+import type { Locale } from 'date-fns';
+import type { WeekDay, WeekNumbering } from './useDateRangePicker';
+
+export type CalendarWeek = {
+  days: Date[];
+  /** Week number for the row, present when `weekNumbers` is set */
+  weekNumber?: number;
+};
+
+export type CalendarMonth = {
+  month: Date;
+  weeks: CalendarWeek[];
+  /** Whether a day of the grid belongs to a neighbouring month */
+  isOutsideMonth: (day: Date) => boolean;
+};
+
+export type UseCalendarGridOptions = {
+  /** First day of each month to lay out, one grid per entry */
+  months: Date[];
+  weekStartsOn?: WeekDay;
+  weekNumbers?: WeekNumbering;
+  locale?: Locale;
+};
+
+const fallbackWeekdays = ['Su', 'Mo', 'Tu', 'We', 'Th', 'Fr', 'Sa'];
+
+const fallbackMonths = [
+  'January',
+  'February',
+  'March',
+  'April',
+  'May',
+  'June',
+  'July',
+  'August',
+  'September',
+  'October',
+  'November',
+  'December'
+];
+
+const buildCalendar = (month: Date, weekStartsOn: WeekDay) => {
+  const start = startOfWeek(startOfMonth(month), { weekStartsOn });
+  const end = endOfWeek(endOfMonth(month), { weekStartsOn });
+  const days: Date[] = [];
+
+  let cursor = start;
+  while (!isAfter(cursor, end)) {
+    days.push(cursor);
+    cursor = addDays(cursor, 1);
+  }
+
+  return days;
+};
+
+/**
+ * Layout of the day grids: whole weeks for each month, weekday names starting on
+ * `weekStartsOn`, localized month names and optional week numbers. Holds no selection state.
+ */
+const useCalendarGrid = ({
+  months,
+  weekStartsOn = 0,
+  weekNumbers,
+  locale
+}: UseCalendarGridOptions) => {
+  const monthKeys = months.map((m) => startOfMonth(m).getTime()).join();
+
+  const weekdays = useMemo(() => {
+    const names = locale?.localize?.day
+      ? Array.from({ length: 7 }, (_, i) => locale.localize!.day(i, { width: 'short' }))
+      : fallbackWeekdays;
+    // Header starts on the same weekday as the grid rows
+    return Array.from({ length: 7 }, (_, i) => names[(i + weekStartsOn) % 7]);
+  }, [locale, weekStartsOn]);
+
+  const monthNames = useMemo(
+    () =>
+      locale?.localize?.month
+        ? Array.from({ length: 12 }, (_, i) => locale.localize!.month(i, { width: 'wide' }))
+        : fallbackMonths,
+    [locale]
+  );
+
+  const calendars = useMemo<CalendarMonth[]>(
+    () =>
+      monthKeys
+        .split(',')
+        .filter(Boolean)
+        .map((key) => {
+          const month = new Date(Number(key));
+          const days = buildCalendar(month, weekStartsOn);
+          const weeks: CalendarWeek[] = [];
+          for (let i = 0; i < days.length; i += 7) {
+            const week = days.slice(i, i + 7);
+            weeks.push({
+              days: week,
+              // The row's Thursday always falls in the ISO week that holds most of the row
+              weekNumber:
+                weekNumbers === 'iso'
+                  ? getISOWeek(week.find((d) => d.getDay() === 4) ?? week[0])
+                  : weekNumbers === 'locale'
+                    ? getWeek(week[0], { locale, weekStartsOn })
+                    : undefined
+            });
+          }
+          return { month, weeks, isOutsideMonth: (day: Date) => !isSameMonth(day, month) };
+        }),
+    [monthKeys, weekStartsOn, weekNumbers, locale]
+  );
+
+  return { calendars, weekdays, monthNames };
+};
+
+export default useCalendarGrid;
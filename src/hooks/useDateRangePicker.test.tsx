@@ -0,0 +1,253 @@
+import { act, renderHook } from '@testing-library/react';
+import type { ChangeEvent, KeyboardEvent } from 'react';
+import { describe, expect, it, vi } from 'vitest';
+import type { DateRange } from '../types';
+import useDateRangePicker, { type UseDateRangePickerOptions } from './useDateRangePicker';
+
+const emptyRange: DateRange = { startDate: null, endDate: null };
+
+// October 2026; Oct 1 is a Thursday
+const oct = (date: number) => new Date(2026, 9, date);
+
+const days = (range: DateRange | null | undefined) =>
+  range ? `${range.startDate?.toDateString()} - ${range.endDate?.toDateString()}` : String(range);
+
+const renderPicker = (options: Partial<UseDateRangePickerOptions> = {}) => {
+  const onChange = vi.fn();
+  const hook = renderHook(() =>
+    useDateRangePicker({ value: emptyRange, onChange, ...options } as UseDateRangePickerOptions)
+  );
+  const lastChange = () => onChange.mock.lastCall?.[0] as DateRange | undefined;
+  return { ...hook, onChange, lastChange };
+};
+
+describe('useDateRangePicker', () => {
+  describe('range selection', () => {
+    it('sets the start on the first click and completes the range on the second', () => {
+      const { result, onChange, lastChange } = renderPicker();
+      act(() => result.current.selectDay(oct(5)));
+      expect(result.current.tempRange.startDate).toEqual(oct(5));
+      expect(result.current.tempRange.endDate).toBeNull();
+      expect(onChange).not.toHaveBeenCalled();
+      act(() => result.current.selectDay(oct(9)));
+      expect(days(lastChange())).toBe('Mon Oct 05 2026 - Fri Oct 09 2026');
+    });
+
+    it('orders a range picked end first', () => {
+      const { result, lastChange } = renderPicker();
+      act(() => result.current.selectDay(oct(9)));
+      act(() => result.current.selectDay(oct(5)));
+      expect(days(lastChange())).toBe('Mon Oct 05 2026 - Fri Oct 09 2026');
+    });
+
+    it('holds the selection until apply when autoApply is off', () => {
+      const { result, onChange, lastChange } = renderPicker({ autoApply: false });
+      act(() => result.current.selectDay(oct(5)));
+      act(() => result.current.selectDay(oct(9)));
+      expect(onChange).not.toHaveBeenCalled();
+      act(() => result.current.apply());
+      expect(days(lastChange())).toBe('Mon Oct 05 2026 - Fri Oct 09 2026');
+    });
+
+    it('discards the pending selection on cancel', () => {
+      const value = { startDate: oct(1), endDate: oct(2) };
+      const { result, onChange } = renderPicker({ value, autoApply: false });
+      act(() => result.current.selectDay(oct(5)));
+      act(() => result.current.cancel());
+      expect(result.current.tempRange).toEqual(value);
+      expect(onChange).not.toHaveBeenCalled();
+    });
+
+    it('ignores days outside minDate and maxDate', () => {
+      const { result } = renderPicker({ minDate: oct(3), maxDate: oct(20) });
+      expect(result.current.isDateDisabled(oct(2))).toBe(true);
+      expect(result.current.isDateDisabled(oct(21))).toBe(true);
+      act(() => result.current.selectDay(oct(2)));
+      expect(result.current.tempRange.startDate).toBeNull();
+    });
+  });
+
+  describe('prop-getters', () => {
+    it('marks the selected ends and the days between them', () => {
+      const { result } = renderPicker({ value: { startDate: oct(5), endDate: oct(9) } });
+      const props = (date: number) => result.current.getDayProps(oct(date), 0, oct(1));
+      expect(props(5)['aria-selected']).toBe(true);
+      expect(props(7)['aria-selected']).toBe(true);
+      expect(props(12)['aria-selected']).toBe(false);
+    });
+
+    it('wires the trigger to the popover it opens', () => {
+      const { result } = renderPicker();
+      expect(result.current.getTriggerProps()['aria-expanded']).toBe(false);
+      act(() => result.current.setOpen(true));
+      const trigger = result.current.getTriggerProps();
+      expect(trigger['aria-expanded']).toBe(true);
+      expect(trigger['aria-controls']).toBe(result.current.getPopoverProps().id);
+    });
+  });
+
+  describe('disabledRangePolicy', () => {
+    // Oct 7 is disabled, between Oct 5 and Oct 10
+    const disabledDates = [oct(7)];
+
+    it('clamps a forward selection toward its start', () => {
+      const { result, lastChange } = renderPicker({ disabledDates, disabledRangePolicy: 'clamp' });
+      act(() => result.current.selectDay(oct(5)));
+      act(() => result.current.selectDay(oct(10)));
+      expect(days(lastChange())).toBe('Mon Oct 05 2026 - Tue Oct 06 2026');
+    });
+
+    it('clamps a backward selection toward the day picked first', () => {
+      const { result, lastChange } = renderPicker({ disabledDates, disabledRangePolicy: 'clamp' });
+      act(() => result.current.selectDay(oct(10)));
+      act(() => result.current.selectDay(oct(5)));
+      expect(days(lastChange())).toBe('Thu Oct 08 2026 - Sat Oct 10 2026');
+    });
+
+    it('keeps the fixed date when editing the From calendar', () => {
+      const { result, lastChange } = renderPicker({
+        value: { startDate: oct(9), endDate: oct(10) },
+        disabledDates,
+        disabledRangePolicy: 'clamp',
+        separateCalendars: true
+      });
+      act(() => result.current.selectDay(oct(5), 0));
+      expect(days(lastChange())).toBe('Thu Oct 08 2026 - Sat Oct 10 2026');
+    });
+
+    it('rejects a range over a disabled day', () => {
+      const { result, onChange } = renderPicker({ disabledDates, disabledRangePolicy: 'reject' });
+      act(() => result.current.selectDay(oct(10)));
+      act(() => result.current.selectDay(oct(5)));
+      expect(onChange).not.toHaveBeenCalled();
+      expect(result.current.tempRange.startDate).toEqual(oct(10));
+    });
+  });
+
+  describe('typed text', () => {
+    const errors = (onValidationError: ReturnType<typeof vi.fn>) =>
+      onValidationError.mock.calls.map(([error]) => error.reason);
+
+    it('calls text without a separator unparsable unless it holds two dates', () => {
+      const onValidationError = vi.fn();
+      const { result } = renderPicker({ editable: true, onValidationError });
+      act(() => {
+        result.current.applyText('garbage');
+      });
+      act(() => {
+        result.current.applyText('2026-10-01 2026-10-20');
+      });
+      expect(errors(onValidationError)).toEqual(['unparsable', 'separator']);
+    });
+
+    it('reports invalid text once when Enter is followed by blur', () => {
+      const onValidationError = vi.fn();
+      const { result } = renderPicker({ editable: true, onValidationError });
+      const type = (text: string) =>
+        act(() =>
+          result.current.getInputProps().onChange({
+            target: { value: text }
+          } as ChangeEvent<HTMLInputElement>)
+        );
+      const press = (key: string) =>
+        act(() =>
+          result.current.getInputProps().onKeyDown({
+            key,
+            preventDefault: () => {}
+          } as KeyboardEvent<HTMLInputElement>)
+        );
+      type('garbage');
+      press('Enter');
+      act(() => result.current.getInputProps().onBlur());
+      expect(errors(onValidationError)).toEqual(['unparsable']);
+      type('still garbage');
+      act(() => result.current.getInputProps().onBlur());
+      expect(errors(onValidationError)).toEqual(['unparsable', 'unparsable']);
+    });
+  });
+
+  describe('ISO week granularity', () => {
+    // Sunday Oct 11 to Saturday Oct 17, 2026: Monday to Saturday fall in ISO week 42
+    const week = { startDate: oct(11), endDate: new Date(2026, 9, 17, 23, 59, 59, 999) };
+
+    it('labels a week row starting on Sunday by its ISO week', () => {
+      const { result } = renderPicker({ value: week, granularity: 'week', weekNumbers: 'iso' });
+      expect(result.current.label).toBe('2026-W42');
+    });
+
+    it('reads a typed ISO week as the grid row holding it', () => {
+      const { result, lastChange } = renderPicker({
+        granularity: 'week',
+        weekNumbers: 'iso',
+        editable: true
+      });
+      act(() => {
+        result.current.applyText('2026-W42');
+      });
+      expect(days(lastChange())).toBe('Sun Oct 11 2026 - Sat Oct 17 2026');
+      expect(result.current.textValue).toBe('2026-W42');
+    });
+  });
+
+  describe('setRange', () => {
+    it('commits a range and shows it', () => {
+      const { result, lastChange } = renderPicker();
+      act(() => result.current.setRange({ startDate: oct(5), endDate: oct(9) }));
+      expect(days(lastChange())).toBe('Mon Oct 05 2026 - Fri Oct 09 2026');
+      expect(days(result.current.tempRange)).toBe('Mon Oct 05 2026 - Fri Oct 09 2026');
+    });
+
+    it('reports a range outside the span limits instead of committing it', () => {
+      const onSpanViolation = vi.fn();
+      const { result, onChange } = renderPicker({ maxSpan: 3, onSpanViolation });
+      act(() => result.current.setRange({ startDate: oct(5), endDate: oct(9) }));
+      expect(onChange).not.toHaveBeenCalled();
+      expect(onSpanViolation).toHaveBeenCalledWith(expect.objectContaining({ reason: 'maxSpan' }));
+    });
+  });
+
+  describe('open state callbacks', () => {
+    const renderControlled = (open: boolean) => {
+      const onOpen = vi.fn();
+      const onClose = vi.fn();
+      const onOpenChange = vi.fn();
+      const hook = renderHook(
+        ({ open }) =>
+          useDateRangePicker({
+            value: emptyRange,
+            onChange: () => {},
+            open,
+            onOpenChange,
+            onOpen,
+            onClose
+          }),
+        { initialProps: { open } }
+      );
+      return { ...hook, onOpen, onClose, onOpenChange };
+    };
+
+    it('does not report an open the parent refuses', () => {
+      const { result, onOpen, onOpenChange } = renderControlled(false);
+      act(() => result.current.setOpen(true));
+      expect(onOpenChange).toHaveBeenCalledWith(true);
+      expect(onOpen).not.toHaveBeenCalled();
+    });
+
+    it('reports opening and closing through the open prop', () => {
+      const { rerender, onOpen, onClose } = renderControlled(false);
+      rerender({ open: true });
+      expect(onOpen).toHaveBeenCalledTimes(1);
+      rerender({ open: false });
+      expect(onClose).toHaveBeenCalledWith('programmatic');
+    });
+
+    it('reports the reason of a close the parent follows', () => {
+      const { result, rerender, onClose, onOpenChange } = renderControlled(true);
+      act(() => result.current.setOpen(false, 'escape'));
+      expect(onOpenChange).toHaveBeenCalledWith(false);
+      expect(onClose).not.toHaveBeenCalled();
+      rerender({ open: false });
+      expect(onClose).toHaveBeenCalledWith('escape');
+    });
+  });
+});
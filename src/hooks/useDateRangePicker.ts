@@ -0,0 +1,2383 @@
+import { useCallback, useEffect, useId, useMemo, useRef, useState } from 'react';
+import type {
+  SetStateAction,
+  ChangeEvent as ReactChangeEvent,
+  FocusEvent as ReactFocusEvent,
+  KeyboardEvent as ReactKeyboardEvent
+} from 'react';
+import {
+  addDays,
+  addMonths,
+  addYears,
+  compareAsc,
+  differenceInCalendarDays,
+  endOfDay,
+  endOfMonth,
+  endOfQuarter,
+  endOfWeek,
+  endOfYear,
+  format,
+  parse,
+  isValid,
+  isAfter,
+  isBefore,
+  isSameDay,
+  isSameMonth,
+  isWithinInterval,
+  set,
+  startOfDay,
+  startOfMonth,
+  startOfQuarter,
+  startOfWeek,
+  startOfYear
+} from 'date-fns';
+import type { Locale } from 'date-fns';
+import type { CalendarDateRange, DateRange } from '../types';
+import { listHolidays, type HolidayProvider } from '../holidays';
+import { fromZonedTime, startOfTodayIn, toZonedTime } from '../timeZone';
+import {
+  getIsoValueShape,
+  isoDateFormat,
+  isoDateTimeFormat,
+  parseIsoDate,
+  parseRangeValue,
+  serializeRangeValue,
+  type RangeValueTypes,
+  type ValueFormat
+} from '../valueAdapters';
+import { tokenizeSegments } from '../components/segmentTokens';
+import usePopoverPosition, { type PopoverPlacement } from './usePopoverPosition';
+
+// `today` is the start of the current day in the picker's `timeZone`; returned dates are read
+// as wall-clock dates in that zone
+export type PresetRange = {
+  label: string;
+  range: (today: Date) => DateRange;
+};
+
+export type PresetDate = {
+  label: string;
+  date: (today: Date) => Date;
+};
+
+export type DateRangePickerLabels = {
+  previousMonth: string;
+  nextMonth: string;
+  previousYear: string;
+  nextYear: string;
+  previousYears: string;
+  nextYears: string;
+  weekColumn: string;
+  selectWeek: (week: number) => string;
+  chooseYear: string;
+  chooseMonth: string;
+  chooseMonthYear: string;
+  from: string;
+  to: string;
+  start: string;
+  end: string;
+  selectDate: string;
+  clear: string;
+  clearDates: string;
+  cancel: string;
+  apply: string;
+  rangeDialog: string;
+  singleDialog: string;
+  startDay: string;
+  endDay: string;
+  time: string;
+  startTime: string;
+  endTime: string;
+  hour: string;
+  minute: string;
+  second: string;
+  meridiem: string;
+  year: string;
+  month: string;
+  day: string;
+  startDate: string;
+  endDate: string;
+  startSelected: (date: string) => string;
+  endSelected: (date: string) => string;
+  rangeSelected: (start: string, end: string) => string;
+  dateSelected: (date: string) => string;
+  selectionCleared: string;
+  datesSelected: (count: number) => string;
+  rangesSelected: (count: number) => string;
+  keywordToday: string;
+  keywordYesterday: string;
+  keywordTomorrow: string;
+  /** Typed-text templates; `{n}` stands for a positive number */
+  keywordDaysAgo: string;
+  keywordLastDays: string;
+  keywordNextDays: string;
+  keywordTo: string;
+  /** Validation messages of a `required` picker left empty */
+  requiredDate: string;
+  requiredRange: string;
+};
+
+export type DisabledRangePolicy = 'allow' | 'reject' | 'clamp';
+
+export type ValidationErrorReason =
+  | 'unparsable'
+  | 'separator'
+  | 'beforeMin'
+  | 'afterMax'
+  | 'disabled'
+  | 'disabledInRange'
+  | 'minSpan'
+  | 'maxSpan';
+
+export type ValidationError = {
+  reason: ValidationErrorReason;
+  /** The raw text that failed validation */
+  input: string;
+  /** Which side of a typed range failed, when the failure is tied to one date */
+  part?: 'start' | 'end';
+};
+
+export type SpanViolation = {
+  reason: 'minSpan' | 'maxSpan';
+  /** The configured limit, in days */
+  limit: number;
+  range: DateRange;
+};
+
+/** What closed the popover; `'programmatic'` covers the ref handle, form reset and `setOpen` */
+export type CloseReason =
+  | 'outsideClick'
+  | 'escape'
+  | 'apply'
+  | 'cancel'
+  | 'select'
+  | 'clear'
+  | 'trigger'
+  | 'programmatic';
+
+export type WeekNumbering = 'iso' | 'locale';
+
+export type Granularity = 'day' | 'week' | 'month' | 'quarter' | 'year';
+
+export type SelectionMode = 'single' | 'range' | 'multiple' | 'multiRange';
+
+// Controlled through `value`, or uncontrolled starting from `defaultValue`
+type ValueProps<T> = {
+  value?: T;
+  defaultValue?: T;
+  onChange?: (next: T) => void;
+};
+
+// A single date or range may also be passed in a serializable `valueFormat`
+type AdaptedSelection = {
+  [F in Exclude<ValueFormat, 'date'>]: { mode?: 'single' | 'range'; valueFormat: F } & ValueProps<
+    RangeValueTypes[F]
+  >;
+}[Exclude<ValueFormat, 'date'>];
+
+// The value shape follows the selection mode
+export type DateRangeSelection =
+  | ({ mode?: 'single' | 'range'; valueFormat?: 'date' } & ValueProps<DateRange>)
+  | AdaptedSelection
+  | ({ mode: 'multiple'; valueFormat?: 'date' } & ValueProps<Date[]>)
+  | ({ mode: 'multiRange'; valueFormat?: 'date' } & ValueProps<DateRange[]>);
+
+export type WeekDay = 0 | 1 | 2 | 3 | 4 | 5 | 6;
+
+/** Flags describing one day cell, for custom rendering and styling */
+export type DayState = {
+  /** Selection role of the day; `'selected'` marks a picked day in multiple mode */
+  active: 'start' | 'end' | 'selected' | null;
+  isStart: boolean;
+  isEnd: boolean;
+  inRange: boolean;
+  /** Day under the pointer */
+  isHovered: boolean;
+  disabled: boolean;
+  isToday: boolean;
+  /** Falls on one of `weekendDays` */
+  isWeekend: boolean;
+  /** Name of the holiday on this day, from the `holidays` provider */
+  holiday: string | null;
+  /** Day of a neighbouring month shown to fill the grid */
+  outsideMonth: boolean;
+  /** Day holding the grid's single tab stop */
+  isTabStop: boolean;
+};
+
+/** How the calendar panes page: all together, or each on its own without crossing */
+export type PagingMode = 'linked' | 'independent';
+
+export type UseDateRangePickerOptions = DateRangeSelection & {
+  displayFormat?: string;
+  presetRanges?: PresetRange[];
+  presetDates?: PresetDate[];
+  minDate?: Date;
+  maxDate?: Date;
+  isDateDisabled?: (day: Date) => boolean;
+  disabledDates?: Date[];
+  disabledRanges?: DateRange[];
+  disabledDaysOfWeek?: number[];
+  /** Days of the week counted as weekend, `0` = Sunday (default Saturday and Sunday) */
+  weekendDays?: number[];
+  /** Holidays as a list or per-year function, e.g. `holidayCalendars.US` */
+  holidays?: HolidayProvider;
+  /** Make holidays unselectable like other disabled days */
+  disableHolidays?: boolean;
+  disabledRangePolicy?: DisabledRangePolicy;
+  minSpan?: number;
+  maxSpan?: number;
+  onSpanViolation?: (violation: SpanViolation) => void;
+  closeOnSelect?: boolean;
+  autoApply?: boolean;
+  singleDatePicker?: boolean;
+  showPresets?: boolean;
+  locale?: Locale;
+  editable?: boolean;
+  onValidationError?: (error: ValidationError) => void;
+  revertOnInvalid?: boolean;
+  parseFormats?: string[];
+  rangeSeparator?: string;
+  maskedInput?: boolean;
+  separateCalendars?: boolean;
+  /** Calendar panes shown side by side, 1 to 12 (default 1 for a single date, else 2) */
+  numberOfMonths?: number;
+  pagingMode?: PagingMode;
+  timePicker?: boolean;
+  timePicker24Hour?: boolean;
+  timePickerIncrement?: number;
+  timePickerSeconds?: boolean;
+  maxSelections?: number;
+  granularity?: Granularity;
+  weekStartsOn?: WeekDay;
+  weekNumbers?: WeekNumbering;
+  /** Keep the calendars permanently open, e.g. embedded in a page, with no trigger */
+  inline?: boolean;
+  /** Preferred side and alignment of the popover relative to the trigger */
+  placement?: PopoverPlacement;
+  /** Flip and shift the popover to keep it inside the viewport (default `true`) */
+  flip?: boolean;
+  /** Render the popover into this element, or `document.body`, to escape clipping containers */
+  appendTo?: HTMLElement | 'body';
+  /** Force the full-width month list and bottom sheet on or off; by default it follows `mobileBreakpoint` */
+  mobile?: boolean;
+  /** Viewport width in pixels below which the mobile layout is used (default `640`) */
+  mobileBreakpoint?: number;
+  /**
+   * IANA zone, e.g. `'Asia/Seoul'`, for the grid, today, presets and typed text; `value`,
+   * `minDate`, `maxDate`, `disabledDates` and `disabledRanges` are instants read in that zone
+   */
+  timeZone?: string;
+  /** Submitted field holding the value as an ISO date, or a `start/end` interval for ranges */
+  name?: string;
+  /** Submitted fields holding the start and end as ISO dates */
+  startName?: string;
+  endName?: string;
+  /** Block form submission while no date (or no complete range) is selected */
+  required?: boolean;
+  disabled?: boolean;
+  /** Show the value without letting it change */
+  readOnly?: boolean;
+  /** Focus entering and leaving the picker as a whole, popover included */
+  onFocus?: (event: ReactFocusEvent<HTMLElement>) => void;
+  onBlur?: (event: ReactFocusEvent<HTMLElement>) => void;
+  /** Controlled open state of the popover; pair with `onOpenChange` */
+  open?: boolean;
+  onOpenChange?: (open: boolean) => void;
+  onOpen?: () => void;
+  onClose?: (reason: CloseReason) => void;
+  /** First click of a range, before its end is picked */
+  onStartDateSelect?: (date: Date) => void;
+  /** Range previewed between the picked start and the hovered day, `null` when none */
+  onHoverRangeChange?: (range: DateRange | null) => void;
+  /** First day of each visible month, on mount and whenever paging changes them */
+  onViewChange?: (months: Date[]) => void;
+  /** A preset was picked, before the resulting `onChange` */
+  onPresetSelect?: (preset: PresetRange | PresetDate, index: number) => void;
+  /** Pending changes were discarded with Cancel */
+  onCancel?: () => void;
+  /** The selection was cleared */
+  onClear?: () => void;
+  /** Called with the selected calendar days as `yyyy-MM-dd`, free of any time zone */
+  onCalendarDateChange?: (range: CalendarDateRange) => void;
+  labels?: Partial<DateRangePickerLabels>;
+};
+
+const defaultLabels: DateRangePickerLabels = {
+  previousMonth: 'Previous month',
+  nextMonth: 'Next month',
+  previousYear: 'Previous year',
+  nextYear: 'Next year',
+  previousYears: 'Previous years',
+  nextYears: 'Next years',
+  weekColumn: 'Wk',
+  selectWeek: (week) => `Select week ${week}`,
+  chooseYear: 'Choose year',
+  chooseMonth: 'Choose month',
+  chooseMonthYear: 'Choose month and year',
+  from: 'From',
+  to: 'To',
+  start: 'Start',
+  end: 'End',
+  selectDate: 'Select Date',
+  clear: 'Clear',
+  clearDates: 'Clear dates',
+  cancel: 'Cancel',
+  apply: 'Apply',
+  rangeDialog: 'Choose date range',
+  singleDialog: 'Choose date',
+  startDay: 'start date',
+  endDay: 'end date',
+  time: 'Time',
+  startTime: 'Start time',
+  endTime: 'End time',
+  hour: 'Hour',
+  minute: 'Minute',
+  second: 'Second',
+  meridiem: 'AM/PM',
+  year: 'Year',
+  month: 'Month',
+  day: 'Day',
+  startDate: 'Start date',
+  endDate: 'End date',
+  startSelected: (date) => `Start date ${date} selected, choose end date`,
+  endSelected: (date) => `End date ${date} selected, choose start date`,
+  rangeSelected: (start, end) => `Selected range ${start} to ${end}`,
+  dateSelected: (date) => `${date} selected`,
+  selectionCleared: 'Dates cleared',
+  datesSelected: (count) => (count === 1 ? '1 date selected' : `${count} dates selected`),
+  rangesSelected: (count) => (count === 1 ? '1 range selected' : `${count} ranges selected`),
+  keywordToday: 'today',
+  keywordYesterday: 'yesterday',
+  keywordTomorrow: 'tomorrow',
+  keywordDaysAgo: '{n} days ago',
+  keywordLastDays: 'last {n} days',
+  keywordNextDays: 'next {n} days',
+  keywordTo: 'to',
+  requiredDate: 'Please select a date.',
+  requiredRange: 'Please select a start and end date.'
+};
+
+// Unambiguous layouts accepted in typed input besides displayFormat; ISO-8601 is always tried last
+const defaultParseFormats = [
+  'yyyy-MM-dd',
+  'yyyy/MM/dd',
+  'yyyy.MM.dd',
+  'yyyyMMdd',
+  'MMM d yyyy',
+  'MMM d, yyyy',
+  'MMMM d yyyy',
+  'MMMM d, yyyy',
+  'd MMM yyyy',
+  'd MMMM yyyy'
+];
+
+// Separators recognised in typed ranges in addition to rangeSeparator
+const alternateRangeSeparators = ['~', ' - ', ' – ', ' — '];
+
+// Case-insensitive match of a typed-range separator; one starting or ending in a letter or digit
+// only matches as a whole word, so `to` does not split "October"
+const separatorPattern = (separator: string) => {
+  const escaped = separator.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const before = /^[\p{L}\p{N}]/u.test(separator) ? '(?<![\\p{L}\\p{N}])' : '';
+  const after = /[\p{L}\p{N}]$/u.test(separator) ? '(?![\\p{L}\\p{N}])' : '';
+  return new RegExp(`${before}${escaped}${after}`, 'giu');
+};
+
+const defaultPresets: PresetRange[] = [
+  {
+    label: 'Today',
+    range: (today) => ({ startDate: today, endDate: today })
+  },
+  {
+    label: 'Yesterday',
+    range: (today) => {
+      const yesterday = addDays(today, -1);
+      return { startDate: yesterday, endDate: yesterday };
+    }
+  },
+  {
+    label: 'Last 7 days',
+    range: (today) => {
+      const end = endOfDay(today);
+      const start = startOfDay(addDays(end, -6));
+      return { startDate: start, endDate: end };
+    }
+  },
+  {
+    label: 'Last 30 days',
+    range: (today) => {
+      const end = endOfDay(today);
+      const start = startOfDay(addDays(end, -29));
+      return { startDate: start, endDate: end };
+    }
+  },
+  {
+    label: 'This month',
+    range: (today) => {
+      const start = startOfMonth(today);
+      const end = endOfMonth(start);
+      return { startDate: start, endDate: end };
+    }
+  }
+];
+
+const defaultSinglePresets: PresetDate[] = [
+  {
+    label: 'Today',
+    date: (today) => today
+  },
+  {
+    label: 'Yesterday',
+    date: (today) => addDays(today, -1)
+  },
+  {
+    label: '7 days ago',
+    date: (today) => addDays(today, -7)
+  },
+  {
+    label: '30 days ago',
+    date: (today) => addDays(today, -30)
+  }
+];
+
+// ISO weeks are labelled with the ISO week-numbering year
+const isoWeekFormat = "RRRR-'W'II";
+
+// Default display formats for coarser granularities, e.g. 2026-W42 or 2026-Q3
+const periodFormats: Record<Exclude<Granularity, 'day'>, string> = {
+  week: "YYYY-'W'ww",
+  month: 'yyyy-MM',
+  quarter: "yyyy-'Q'Q",
+  year: 'yyyy'
+};
+
+// Spoken label of a month, quarter or year grid cell
+const periodLabelFormats: Record<'month' | 'quarter' | 'year', string> = {
+  month: 'MMMM yyyy',
+  quarter: 'QQQQ yyyy',
+  year: 'yyyy'
+};
+
+// Weeks start on the grid's first weekday
+const startOfPeriod = (date: Date, granularity: Granularity, weekStartsOn: WeekDay = 0) => {
+  switch (granularity) {
+    case 'week':
+      return startOfWeek(date, { weekStartsOn });
+    case 'month':
+      return startOfMonth(date);
+    case 'quarter':
+      return startOfQuarter(date);
+    case 'year':
+      return startOfYear(date);
+    default:
+      return startOfDay(date);
+  }
+};
+
+const endOfPeriod = (date: Date, granularity: Granularity, weekStartsOn: WeekDay = 0) => {
+  switch (granularity) {
+    case 'week':
+      return endOfWeek(date, { weekStartsOn });
+    case 'month':
+      return endOfMonth(date);
+    case 'quarter':
+      return endOfQuarter(date);
+    case 'year':
+      return endOfYear(date);
+    default:
+      return endOfDay(date);
+  }
+};
+
+// Options accepted by both format and parse, whose week settings are narrower
+type FormatOptions = Parameters<typeof parse>[3];
+
+// A range inside one period (e.g. a single week) is shown as that period alone
+const formatRangeText = (
+  range: DateRange,
+  formatDate: (date: Date) => string,
+  singleDatePicker: boolean,
+  separator: string,
+  collapseSame = false
+) => {
+  if (singleDatePicker) {
+    return range.startDate ? formatDate(range.startDate) : '';
+  }
+  const start = range.startDate ? formatDate(range.startDate) : '';
+  const end = range.endDate ? formatDate(range.endDate) : '';
+  if (collapseSame && start && start === end) return start;
+  return start && end ? `${start} ${separator} ${end}` : '';
+};
+
+const emptyRange: DateRange = { startDate: null, endDate: null };
+const noDates: Date[] = [];
+const noRanges: DateRange[] = [];
+
+const defaultWeekendDays = [0, 6];
+
+const zoneRange = (range: DateRange, timeZone: string): DateRange => ({
+  startDate: range.startDate && toZonedTime(range.startDate, timeZone),
+  endDate: range.endDate && toZonedTime(range.endDate, timeZone)
+});
+
+const unzoneRange = (range: DateRange, timeZone: string): DateRange => ({
+  startDate: range.startDate && fromZonedTime(range.startDate, timeZone),
+  endDate: range.endDate && fromZonedTime(range.endDate, timeZone)
+});
+
+// Months stacked in the scrolling list of the mobile layout
+const mobileMonthCount = 12;
+
+/**
+ * Headless state and behaviour behind `DateRangePicker`: selection rules, view months, typed
+ * input and focus management, plus prop-getters that wire them onto any markup.
+ */
+const useDateRangePicker = (props: UseDateRangePickerOptions) => {
+  const {
+    displayFormat: displayFormatProp,
+    presetRanges = defaultPresets,
+    presetDates,
+    minDate: minDateProp,
+    maxDate: maxDateProp,
+    isDateDisabled,
+    disabledDates: disabledDatesProp,
+    disabledRanges: disabledRangesProp,
+    disabledDaysOfWeek,
+    weekendDays = defaultWeekendDays,
+    holidays,
+    disableHolidays = false,
+    disabledRangePolicy = 'allow',
+    minSpan,
+    maxSpan,
+    onSpanViolation,
+    closeOnSelect = true,
+    autoApply = true,
+    singleDatePicker: singleDatePickerProp = false,
+    showPresets: showPresetsProp = true,
+    locale,
+    editable: editableProp = false,
+    onValidationError,
+    revertOnInvalid = false,
+    parseFormats = defaultParseFormats,
+    rangeSeparator: rangeSeparatorProp,
+    maskedInput = false,
+    separateCalendars: separateCalendarsProp = false,
+    numberOfMonths,
+    pagingMode: pagingModeProp = 'linked',
+    timePicker: timePickerProp = false,
+    timePicker24Hour = true,
+    timePickerIncrement = 1,
+    timePickerSeconds = false,
+    maxSelections,
+    granularity: granularityProp = 'day',
+    weekStartsOn = (locale?.options?.weekStartsOn ?? 0) as WeekDay,
+    weekNumbers,
+    inline = false,
+    placement = 'bottom-start',
+    flip = true,
+    appendTo,
+    mobile: mobileProp,
+    mobileBreakpoint = 640,
+    timeZone,
+    onCalendarDateChange,
+    open: openProp,
+    onOpenChange,
+    onOpen,
+    onClose,
+    onStartDateSelect,
+    onHoverRangeChange,
+    onViewChange,
+    onPresetSelect,
+    onCancel,
+    onClear,
+    name,
+    startName,
+    endName,
+    required = false,
+    disabled = false,
+    readOnly = false,
+    onFocus,
+    onBlur,
+    labels: labelOverrides
+  } = props;
+  const [isNarrow, setIsNarrow] = useState(false);
+  useEffect(() => {
+    if (mobileProp !== undefined || typeof window.matchMedia !== 'function') return;
+    const query = window.matchMedia(`(max-width: ${mobileBreakpoint - 1}px)`);
+    const handleChange = () => setIsNarrow(query.matches);
+    handleChange();
+    query.addEventListener('change', handleChange);
+    return () => query.removeEventListener('change', handleChange);
+  }, [mobileProp, mobileBreakpoint]);
+  const mobile = mobileProp ?? isNarrow;
+  const mode: SelectionMode = props.mode ?? (singleDatePickerProp ? 'single' : 'range');
+  const isMulti = mode === 'multiple' || mode === 'multiRange';
+  const singleDatePicker = mode === 'single';
+  const granularity: Granularity = isMulti ? 'day' : granularityProp;
+  // Months, quarters and years are picked from their own grid instead of the day grid
+  const periodView = granularity === 'month' || granularity === 'quarter' || granularity === 'year';
+  // Typed input, presets, From-To calendars and times only apply to a single date or range
+  const editable = editableProp && !isMulti;
+  const showPresets = showPresetsProp && !isMulti;
+  // The mobile month list is one continuous timeline, so From-To panes do not apply
+  const separateCalendars =
+    separateCalendarsProp && !isMulti && !periodView && !mobile && !singleDatePicker;
+  // From-To mode always shows its two panes; the mobile list is a linked column of months
+  const paneCount = periodView
+    ? 1
+    : mobile
+      ? mobileMonthCount
+      : separateCalendars
+        ? 2
+        : Math.min(Math.max(Math.round(numberOfMonths ?? (singleDatePicker ? 1 : 2)), 1), 12);
+  const linkedPaging = !separateCalendars && (mobile || pagingModeProp === 'linked');
+  const timePicker = timePickerProp && !isMulti && granularity === 'day';
+  // Dates arrive and leave as instants; inside, they are wall-clock dates in `timeZone`
+  const single = props.mode === 'multiple' || props.mode === 'multiRange' ? null : props;
+  const valueFormat: ValueFormat = single?.valueFormat ?? 'date';
+  // Without `value` the picker keeps its own, in the same shape as `defaultValue`
+  const controlled = props.value !== undefined;
+  const [ownValue, setOwnValue] = useState(props.defaultValue);
+  const rawDates =
+    props.mode === 'multiple'
+      ? (props.value ?? (ownValue as Date[] | undefined) ?? noDates)
+      : noDates;
+  const rawRanges =
+    props.mode === 'multiRange'
+      ? (props.value ?? (ownValue as DateRange[] | undefined) ?? noRanges)
+      : noRanges;
+  const rawValue =
+    single && (single.value ?? (ownValue as RangeValueTypes[ValueFormat] | undefined));
+  // Changes keep the layout of the ISO value they replace
+  const valueShape = rawValue ? getIsoValueShape(valueFormat, rawValue) : {};
+  const adapterOptions = { ...valueShape, timeZone, withTime: timePicker || valueShape.withTime };
+  // Compared by content, so re-created strings or objects do not reset the view or selection
+  const parsedValue = rawValue ? parseRangeValue(valueFormat, rawValue, adapterOptions) : null;
+  const startTime = parsedValue?.startDate?.getTime() ?? null;
+  const endTime = parsedValue?.endDate?.getTime() ?? null;
+  const value = useMemo<DateRange>(
+    () => ({
+      startDate: startTime === null ? null : new Date(startTime),
+      endDate: endTime === null ? null : new Date(endTime)
+    }),
+    [startTime, endTime]
+  );
+  const multiDates = useMemo(
+    () => (timeZone ? rawDates.map((d) => toZonedTime(d, timeZone)) : rawDates),
+    [rawDates, timeZone]
+  );
+  const multiRanges = useMemo(
+    () => (timeZone ? rawRanges.map((r) => zoneRange(r, timeZone)) : rawRanges),
+    [rawRanges, timeZone]
+  );
+  const disabledDates = useMemo(
+    () =>
+      timeZone && disabledDatesProp
+        ? disabledDatesProp.map((d) => toZonedTime(d, timeZone))
+        : disabledDatesProp,
+    [disabledDatesProp, timeZone]
+  );
+  const disabledRanges = useMemo(
+    () =>
+      timeZone && disabledRangesProp
+        ? disabledRangesProp.map((r) => zoneRange(r, timeZone))
+        : disabledRangesProp,
+    [disabledRangesProp, timeZone]
+  );
+  const minDate = minDateProp && timeZone ? toZonedTime(minDateProp, timeZone) : minDateProp;
+  const maxDate = maxDateProp && timeZone ? toZonedTime(maxDateProp, timeZone) : maxDateProp;
+  const getToday = () => startOfTodayIn(timeZone);
+  // Disabled and read-only pickers keep their value against clicks and typing
+  const locked = disabled || readOnly;
+  // Programmatic changes (ref handle, form reset) bypass the lock
+  const commitRange = (next: DateRange) => {
+    if (!single) return;
+    const serialized = serializeRangeValue(valueFormat, next, adapterOptions);
+    if (!controlled) setOwnValue(serialized);
+    // The value type follows valueFormat, which the props union pairs with onChange
+    const emit = single.onChange as ((next: RangeValueTypes[ValueFormat]) => void) | undefined;
+    emit?.(serialized);
+    onCalendarDateChange?.(serializeRangeValue('isoDate', next));
+  };
+  const onChange = (next: DateRange) => {
+    if (!locked) commitRange(next);
+  };
+  const commitMulti = (dates: Date[], ranges: DateRange[]) => {
+    if (props.mode === 'multiple') {
+      const next = timeZone ? dates.map((d) => fromZonedTime(d, timeZone)) : dates;
+      if (!controlled) setOwnValue(next);
+      props.onChange?.(next);
+    } else if (props.mode === 'multiRange') {
+      const next = timeZone ? ranges.map((r) => unzoneRange(r, timeZone)) : ranges;
+      if (!controlled) setOwnValue(next);
+      props.onChange?.(next);
+    }
+  };
+  const emitMulti = (dates: Date[], ranges: DateRange[]) => {
+    if (!locked) commitMulti(dates, ranges);
+  };
+  const displayFormat =
+    displayFormatProp ??
+    (granularity === 'week' && weekNumbers === 'iso'
+      ? isoWeekFormat
+      : granularity !== 'day'
+        ? periodFormats[granularity]
+        : timePicker
+          ? valueFormat === 'isoDate' || valueFormat === 'isoInterval'
+            ? isoDateTimeFormat
+            : `yyyy-MM-dd ${timePicker24Hour ? 'HH' : 'hh'}:mm${timePickerSeconds ? ':ss' : ''}${
+                timePicker24Hour ? '' : ' a'
+              }`
+          : isoDateFormat);
+  // Week labels count weeks the way the grid lays them out
+  const formatOptions: FormatOptions = useMemo(
+    () =>
+      granularity === 'week'
+        ? { locale, weekStartsOn, useAdditionalWeekYearTokens: true }
+        : { locale },
+    [granularity, locale, weekStartsOn]
+  );
+  const collapsePeriods = granularity !== 'day';
+  // A week row that starts on another day than Monday straddles two ISO weeks; like the grid's
+  // week numbers, it is labelled by its Thursday, which lies in the ISO week holding most of it
+  const isoWeekRows = granularity === 'week' && weekNumbers === 'iso';
+  const formatDate = useCallback(
+    (date: Date) =>
+      format(
+        isoWeekRows
+          ? addDays(startOfWeek(date, { weekStartsOn }), (4 - weekStartsOn + 7) % 7)
+          : date,
+        displayFormat,
+        formatOptions
+      ),
+    [isoWeekRows, weekStartsOn, displayFormat, formatOptions]
+  );
+  const labels = { ...defaultLabels, ...labelOverrides };
+  // ISO intervals show their own `/` separator unless another is given
+  const rangeSeparator = (rangeSeparatorProp ?? (valueFormat === 'isoInterval' ? '/' : '~')).trim();
+  const popoverId = useId();
+  const [openState, setOpenState] = useState(false);
+  const open = inline || (openProp ?? openState);
+  // Why the popover was last asked to close, reported once it actually does
+  const closeReasonRef = useRef<CloseReason>('programmatic');
+  // Inline calendars never close, so Apply, Cancel and closeOnSelect only settle the selection
+  const setOpen = (next: SetStateAction<boolean>, reason: CloseReason = 'programmatic') => {
+    if (inline) return;
+    const nextOpen = typeof next === 'function' ? next(open) : next;
+    if (nextOpen === open || (nextOpen && locked)) return;
+    closeReasonRef.current = nextOpen ? 'programmatic' : reason;
+    if (openProp === undefined) setOpenState(nextOpen);
+    onOpenChange?.(nextOpen);
+  };
+  // A controlled parent may refuse a request or open on its own, so the state itself is reported
+  const reportOpenRef = useRef(() => {});
+  reportOpenRef.current = () => {
+    if (open) onOpen?.();
+    else onClose?.(closeReasonRef.current);
+    closeReasonRef.current = 'programmatic';
+  };
+  const reportedOpenRef = useRef(open);
+
+  useEffect(() => {
+    if (reportedOpenRef.current === open) return;
+    reportedOpenRef.current = open;
+    reportOpenRef.current();
+  }, [open]);
+  // Document listeners close through the latest open state
+  const setOpenRef = useRef(setOpen);
+  setOpenRef.current = setOpen;
+  const firstSelected = value.startDate ?? multiDates[0] ?? multiRanges[0]?.startDate ?? null;
+  const [viewMonths, setViewMonths] = useState<Date[]>(() => [
+    startOfMonth(firstSelected ?? getToday())
+  ]);
+  // One month per pane, in order; panes added since the last paging follow the one before
+  const visibleMonths: Date[] = [];
+  for (let i = 0; i < paneCount; i++) {
+    const stored = viewMonths[i];
+    const previous = visibleMonths[i - 1];
+    visibleMonths.push(
+      !previous
+        ? viewMonths[0]
+        : stored && isAfter(stored, previous)
+          ? stored
+          : addMonths(previous, 1)
+    );
+  }
+  const linkedMonths = (first: Date) =>
+    Array.from({ length: paneCount }, (_, i) => addMonths(startOfMonth(first), i));
+  const [hoverDate, setHoverDate] = useState<Date | null>(null);
+  const [tempRange, setTempRange] = useState<DateRange>(value);
+  const [tempDates, setTempDates] = useState<Date[]>(multiDates);
+  const [tempRanges, setTempRanges] = useState<DateRange[]>(multiRanges);
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const popoverRef = useRef<HTMLDivElement | null>(null);
+  const portalTarget =
+    inline || !appendTo
+      ? null
+      : appendTo === 'body'
+        ? typeof document === 'undefined'
+          ? null
+          : document.body
+        : appendTo;
+  const popoverPosition = usePopoverPosition({
+    // The mobile sheet is laid out by CSS instead
+    open: open && !inline && !mobile,
+    anchorRef: containerRef,
+    popoverRef,
+    placement,
+    flip,
+    fixed: !!portalTarget
+  });
+  // Trigger button, text input or segment group; focus returns here when the popover closes
+  const triggerRef = useRef<HTMLElement | null>(null);
+  const [textValue, setTextValue] = useState<string>('');
+  const [inputError, setInputError] = useState<ValidationErrorReason | null>(null);
+  // Masked mode: last complete text of each side, and a key that resets the segments
+  const segmentDraftRef = useRef<{ start: string | null; end: string | null }>({
+    start: null,
+    end: null
+  });
+  const [segmentsKey, setSegmentsKey] = useState(0);
+  // Roving focus: the day that owns the grid's single tab stop and the pane showing it
+  const [focusedDate, setFocusedDate] = useState<Date | null>(null);
+  const [focusedCalendar, setFocusedCalendar] = useState(0);
+  const shouldFocusDayRef = useRef(false);
+  const [announcement, setAnnouncement] = useState('');
+
+  const isInsidePicker = (node: Node | null) =>
+    !!containerRef.current?.contains(node) || !!popoverRef.current?.contains(node);
+
+  const focusTrigger = () => {
+    const trigger = triggerRef.current;
+    (trigger?.querySelector<HTMLElement>('[role="spinbutton"]') ?? trigger)?.focus();
+  };
+
+  useEffect(() => {
+    if (inline) return;
+    const handleClick = (event: MouseEvent) => {
+      if (!containerRef.current) return;
+      // A portaled popover lives outside the container but still counts as inside
+      if (isInsidePicker(event.target as Node)) return;
+      setOpenRef.current(false, 'outsideClick');
+    };
+
+    const handleKey = (event: KeyboardEvent) => {
+      if (event.key !== 'Escape') return;
+      // Hand focus back to the trigger if it was inside the popover
+      if (isInsidePicker(document.activeElement)) focusTrigger();
+      setOpenRef.current(false, 'escape');
+    };
+
+    document.addEventListener('mousedown', handleClick);
+    document.addEventListener('keyup', handleKey);
+    return () => {
+      document.removeEventListener('mousedown', handleClick);
+      document.removeEventListener('keyup', handleKey);
+    };
+  }, [inline]);
+
+  useEffect(() => {
+    const start = value.startDate;
+    if (!start) return;
+    // Panes run on from the start month; an end month beyond them takes the last pane
+    const months = Array.from({ length: paneCount }, (_, i) => addMonths(startOfMonth(start), i));
+    const last = months.length - 1;
+    if (value.endDate && last > 0 && isAfter(startOfMonth(value.endDate), months[last])) {
+      months[last] = startOfMonth(value.endDate);
+    }
+    setViewMonths(months);
+  }, [value.startDate, value.endDate, paneCount]);
+
+  useEffect(() => {
+    setTempRange(value);
+  }, [value, open]);
+
+  useEffect(() => {
+    setTempDates(multiDates);
+    setTempRanges(multiRanges);
+  }, [multiDates, multiRanges, open]);
+
+  useEffect(() => {
+    if (!open) setFocusedDate(null);
+  }, [open]);
+
+  // Move DOM focus after keyboard navigation has re-rendered the grid
+  useEffect(() => {
+    if (!shouldFocusDayRef.current) return;
+    shouldFocusDayRef.current = false;
+    // Fall back to the trigger when the selection closed the popover
+    const tabStop = popoverRef.current?.querySelector<HTMLElement>(
+      '[role="gridcell"][tabindex="0"]'
+    );
+    if (tabStop) tabStop.focus();
+    else focusTrigger();
+  });
+
+  // keep text in sync when external value changes
+  useEffect(() => {
+    setTextValue(
+      formatRangeText(
+        { startDate: value.startDate, endDate: value.endDate },
+        formatDate,
+        singleDatePicker,
+        rangeSeparator,
+        collapsePeriods
+      )
+    );
+    segmentDraftRef.current = {
+      start: value.startDate ? formatDate(value.startDate) : null,
+      end: value.endDate ? formatDate(value.endDate) : null
+    };
+    setInputError(null);
+  }, [
+    value.startDate,
+    value.endDate,
+    singleDatePicker,
+    formatDate,
+    rangeSeparator,
+    collapsePeriods
+  ]);
+
+  // The month and quarter grids show one year, the year grid a block of twelve
+  const periodViewYears = granularity === 'year' ? 12 : 1;
+  const periodViewStart = (date: Date) =>
+    startOfYear(addYears(date, granularity === 'year' ? -(date.getFullYear() % 12) : 0));
+
+  const getCanGoPrev = (calendarIndex: number) => {
+    const viewDate = visibleMonths[calendarIndex];
+    if (!periodView && isViewMonthBlocked(calendarIndex, addMonths(viewDate, -1))) return false;
+    if (!minDate) return true;
+    if (periodView) {
+      return !isBefore(addDays(periodViewStart(viewDate), -1), startOfDay(minDate));
+    }
+    // Linked panes move together, so the first pane meets minDate first
+    const first = linkedPaging ? addMonths(viewDate, -calendarIndex) : viewDate;
+    const prevMonthEnd = endOfMonth(addMonths(first, -1));
+    return !isBefore(prevMonthEnd, startOfDay(minDate));
+  };
+
+  const getCanGoNext = (calendarIndex: number) => {
+    const viewDate = visibleMonths[calendarIndex];
+    if (!periodView && isViewMonthBlocked(calendarIndex, addMonths(viewDate, 1))) return false;
+    if (!maxDate) return true;
+    if (periodView) {
+      return !isAfter(addYears(periodViewStart(viewDate), periodViewYears), endOfDay(maxDate));
+    }
+    const last = linkedPaging ? addMonths(viewDate, paneCount - 1 - calendarIndex) : viewDate;
+    const nextMonthStart = startOfMonth(addMonths(last, 1));
+    return !isAfter(nextMonthStart, endOfDay(maxDate));
+  };
+
+  // Show `newDate`'s month in a pane; linked panes all shift so they stay consecutive
+  const handleMonthYearChange = (calendarIndex: number, newDate: Date) => {
+    const newMonth = startOfMonth(newDate);
+    if (linkedPaging) {
+      setViewMonths(linkedMonths(addMonths(newMonth, -calendarIndex)));
+      return;
+    }
+    setViewMonths(visibleMonths.map((month, i) => (i === calendarIndex ? newMonth : month)));
+  };
+
+  const { datesSelected, rangesSelected } = labels;
+  const label = useMemo(() => {
+    if (mode === 'multiple' || mode === 'multiRange') {
+      const count = mode === 'multiple' ? multiDates.length : multiRanges.length;
+      if (!count) return labels.selectDate;
+      return mode === 'multiple' ? datesSelected(count) : rangesSelected(count);
+    }
+    if (singleDatePicker) {
+      return value.startDate ? formatDate(value.startDate) : labels.selectDate;
+    }
+    const start = value.startDate ? formatDate(value.startDate) : labels.start;
+    const end = value.endDate ? formatDate(value.endDate) : labels.end;
+    if (collapsePeriods && start === end) return start;
+    return `${start} ${rangeSeparator} ${end}`;
+  }, [
+    value,
+    mode,
+    multiDates.length,
+    multiRanges.length,
+    datesSelected,
+    rangesSelected,
+    formatDate,
+    singleDatePicker,
+    collapsePeriods,
+    rangeSeparator,
+    labels.selectDate,
+    labels.start,
+    labels.end
+  ]);
+
+  // Polite live-region text describing the selection the user just made
+  const describeSelection = (range: DateRange) => {
+    const spoken = (d: Date) => format(d, timePicker ? 'PPPp' : 'PPP', { locale });
+    const { startDate, endDate } = range;
+    if (singleDatePicker) {
+      return startDate ? labels.dateSelected(spoken(startDate)) : labels.selectionCleared;
+    }
+    if (startDate && endDate) return labels.rangeSelected(spoken(startDate), spoken(endDate));
+    if (startDate) return labels.startSelected(spoken(startDate));
+    if (endDate) return labels.endSelected(spoken(endDate));
+    return labels.selectionCleared;
+  };
+
+  // Selection made by the user: update the pending range and announce it
+  const selectRange = (next: DateRange) => {
+    setTempRange(next);
+    setAnnouncement(describeSelection(next));
+  };
+
+  const reportInvalid = (reason: ValidationErrorReason, input: string, part?: 'start' | 'end') => {
+    setInputError(reason);
+    onValidationError?.({ reason, input, part });
+  };
+
+  // Number in a typed phrase such as "last 7 days", given a `{n}` template
+  const matchCountKeyword = (template: string, text: string) => {
+    const [before, after] = template.toLowerCase().split('{n}');
+    if (after === undefined || !text.startsWith(before) || !text.endsWith(after)) return null;
+    const count = Number(text.slice(before.length, text.length - after.length).trim());
+    return Number.isInteger(count) && count > 0 ? count : null;
+  };
+
+  // Relative single-day words ("today", "3 days ago") in the labels' language
+  const matchDayKeyword = (text: string) => {
+    const normalized = text.toLowerCase();
+    const today = getToday();
+    if (normalized === labels.keywordToday.toLowerCase()) return today;
+    if (normalized === labels.keywordYesterday.toLowerCase()) return addDays(today, -1);
+    if (normalized === labels.keywordTomorrow.toLowerCase()) return addDays(today, 1);
+    const daysAgo = matchCountKeyword(labels.keywordDaysAgo, normalized);
+    if (daysAgo) return addDays(today, -daysAgo);
+    if (singleDatePicker) {
+      const preset = (presetDates ?? defaultSinglePresets).find(
+        (p) => p.label.toLowerCase() === normalized
+      );
+      if (preset) return preset.date(getToday());
+    }
+    return null;
+  };
+
+  // Whole-range phrases: preset labels, "last 7 days", "next 7 days" or a single day word
+  const matchRangeKeyword = (text: string): DateRange | null => {
+    const normalized = text.toLowerCase();
+    const preset = presetRanges.find((p) => p.label.toLowerCase() === normalized);
+    if (preset) return preset.range(getToday());
+    const today = getToday();
+    const last = matchCountKeyword(labels.keywordLastDays, normalized);
+    if (last) return { startDate: addDays(today, -(last - 1)), endDate: endOfDay(today) };
+    const next = matchCountKeyword(labels.keywordNextDays, normalized);
+    if (next) return { startDate: today, endDate: endOfDay(addDays(today, next - 1)) };
+    const day = matchDayKeyword(text);
+    return day ? { startDate: day, endDate: endOfDay(day) } : null;
+  };
+
+  // displayFormat first, then parseFormats in order, then ISO-8601
+  const parseTypedDate = (text: string) => {
+    const keyword = matchDayKeyword(text);
+    if (keyword) return keyword;
+    for (const pattern of [displayFormat, ...parseFormats]) {
+      const parsed = parse(text, pattern, getToday(), formatOptions);
+      if (isValid(parsed)) return parsed;
+    }
+    return parseIsoDate(text, { timeZone });
+  };
+
+  const splitTypedRange = (text: string) => {
+    const separators = [rangeSeparator, ` ${labels.keywordTo} `, ...alternateRangeSeparators];
+    for (const separator of separators) {
+      const matches = [...text.matchAll(separatorPattern(separator))];
+      const [match] = matches;
+      // Skip separators that are missing, leading, or appear more than once
+      if (matches.length !== 1 || !match.index) continue;
+      return [text.slice(0, match.index), text.slice(match.index + match[0].length)];
+    }
+    return null;
+  };
+
+  // Two dates typed with only whitespace between them, e.g. "2026-10-01 2026-10-20"
+  const isMissingSeparator = (text: string) => {
+    const words = text.split(/\s+/);
+    for (let i = 1; i < words.length; i++) {
+      const start = words.slice(0, i).join(' ');
+      const end = words.slice(i).join(' ');
+      if (parseTypedDate(start) && parseTypedDate(end)) return true;
+    }
+    return false;
+  };
+
+  // Name the rule a typed date breaks, if any
+  const checkTypedDate = (date: Date): ValidationErrorReason | null => {
+    if (minDate && isBefore(date, startOfDay(minDate))) return 'beforeMin';
+    if (maxDate && isAfter(date, endOfDay(maxDate))) return 'afterMax';
+    if (disableDate(date)) return 'disabled';
+    return null;
+  };
+
+  const commitTypedRange = (next: DateRange) => {
+    setInputError(null);
+    selectRange(next);
+    // Show the canonical form of whatever was typed
+    setTextValue(
+      formatRangeText(next, formatDate, singleDatePicker, rangeSeparator, collapsePeriods)
+    );
+    if (next.startDate) {
+      setViewMonths(linkedMonths(next.startDate));
+    }
+    if (autoApply) {
+      onChange(next);
+    }
+  };
+
+  // Returns whether the typed text was accepted; failures go to onValidationError
+  const applyText = (input: string = textValue): boolean => {
+    if (!editable) return true;
+    const text = input.trim();
+    // An empty field is not an error; it simply leaves the selection alone
+    if (!text) {
+      setInputError(null);
+      return true;
+    }
+    if (singleDatePicker) {
+      const parsed = parseTypedDate(text);
+      const reason = parsed ? checkTypedDate(parsed) : 'unparsable';
+      if (reason || !parsed) {
+        reportInvalid(reason ?? 'unparsable', input, 'start');
+        return false;
+      }
+      commitTypedRange(snapRange({ startDate: parsed, endDate: parsed }));
+      return true;
+    }
+
+    let typed = matchRangeKeyword(text);
+    // With a coarser granularity a lone period such as "2026-W42" is a whole range
+    const period =
+      !typed && granularity !== 'day' && !splitTypedRange(text) && parseTypedDate(text);
+    if (period) typed = { startDate: period, endDate: period };
+    if (!typed) {
+      const parts = splitTypedRange(text);
+      if (!parts) {
+        reportInvalid(isMissingSeparator(text) ? 'separator' : 'unparsable', input);
+        return false;
+      }
+      const sParsed = parseTypedDate(parts[0].trim());
+      const eParsed = parseTypedDate(parts[1].trim());
+      if (!sParsed || !eParsed) {
+        reportInvalid('unparsable', input, sParsed ? 'end' : 'start');
+        return false;
+      }
+      // Typed times are kept as-is in time picker mode; otherwise cover whole days
+      const [first, second] = isAfter(sParsed, eParsed) ? [eParsed, sParsed] : [sParsed, eParsed];
+      typed = {
+        startDate: timePicker ? first : startOfDay(first),
+        endDate: timePicker ? second : endOfDay(second)
+      };
+    }
+    typed = snapRange(typed);
+    for (const part of ['start', 'end'] as const) {
+      const date = part === 'start' ? typed.startDate : typed.endDate;
+      const reason = date && checkTypedDate(date);
+      if (reason) {
+        reportInvalid(reason, input, part);
+        return false;
+      }
+    }
+    const next = applyDisabledRangePolicy(typed);
+    if (!next) {
+      reportInvalid('disabledInRange', input);
+      return false;
+    }
+    const violation = getSpanViolation(next);
+    if (violation) {
+      onSpanViolation?.(violation);
+      reportInvalid(violation.reason, input);
+      return false;
+    }
+    commitTypedRange(next);
+    return true;
+  };
+
+  const segmentsSupported = maskedInput && tokenizeSegments(displayFormat) !== null;
+
+  // Masked mode applies as soon as every segment of the date(s) is filled
+  const handleSegmentsChange = (side: 'start' | 'end', text: string | null) => {
+    segmentDraftRef.current = { ...segmentDraftRef.current, [side]: text };
+    const { start, end } = segmentDraftRef.current;
+    if (singleDatePicker) {
+      if (start) applyText(start);
+      return;
+    }
+    if (start && end) applyText(`${start} ${rangeSeparator} ${end}`);
+  };
+
+  const handleSegmentsBlur = (event: ReactFocusEvent<HTMLDivElement>) => {
+    if (event.currentTarget.contains(event.relatedTarget as Node | null)) return;
+    if (!inputError || !revertOnInvalid) return;
+    // Remount the segments so they show the last valid value again
+    setSegmentsKey((key) => key + 1);
+    segmentDraftRef.current = {
+      start: value.startDate ? formatDate(value.startDate) : null,
+      end: value.endDate ? formatDate(value.endDate) : null
+    };
+    setInputError(null);
+  };
+
+  // Text last applied from the input and whether it was valid, so blur after Enter does not
+  // report the same error twice
+  const appliedTextRef = useRef<{ text: string; valid: boolean } | null>(null);
+  const applyInputText = () => {
+    const valid = applyText();
+    appliedTextRef.current = { text: textValue, valid };
+    return valid;
+  };
+
+  const handleInputBlur = () => {
+    const applied = appliedTextRef.current;
+    const valid = applied?.text === textValue ? applied.valid : applyInputText();
+    if (valid || !revertOnInvalid) return;
+    // Restore the last valid value instead of leaving the bad text behind
+    setTextValue(
+      formatRangeText(value, formatDate, singleDatePicker, rangeSeparator, collapsePeriods)
+    );
+    setInputError(null);
+  };
+
+  // Currently selected preset index computed from tempRange; null if no match
+  const matchedPresetIndex = useMemo(() => {
+    const today = startOfTodayIn(timeZone);
+    if (singleDatePicker) {
+      if (!tempRange.startDate) return null;
+      const list = presetDates ?? defaultSinglePresets;
+      const s = tempRange.startDate;
+      const idx = list.findIndex((p) => isSameDay(p.date(today), s!));
+      return idx >= 0 ? idx : null;
+    }
+    if (!tempRange.startDate || !tempRange.endDate) return null;
+    const s = tempRange.startDate;
+    const e = tempRange.endDate;
+    const idx = presetRanges.findIndex((preset) => {
+      const r = preset.range(today);
+      if (!r.startDate || !r.endDate) return false;
+      return isSameDay(r.startDate!, s!) && isSameDay(r.endDate!, e!);
+    });
+    return idx >= 0 ? idx : null;
+  }, [
+    singleDatePicker,
+    presetDates,
+    presetRanges,
+    tempRange.startDate,
+    tempRange.endDate,
+    timeZone
+  ]);
+
+  // Holidays resolved per year, kept until the provider changes
+  const holidayCacheRef = useRef<{
+    provider: HolidayProvider | undefined;
+    years: Map<number, Map<string, string>>;
+  }>({ provider: undefined, years: new Map() });
+
+  const getHoliday = (day: Date) => {
+    if (!holidays) return null;
+    if (holidayCacheRef.current.provider !== holidays) {
+      holidayCacheRef.current = { provider: holidays, years: new Map() };
+    }
+    const { years } = holidayCacheRef.current;
+    const year = day.getFullYear();
+    let byDay = years.get(year);
+    if (!byDay) {
+      byDay = new Map(
+        listHolidays(holidays, year).map((h) => [format(h.date, 'yyyy-MM-dd'), h.name])
+      );
+      years.set(year, byDay);
+    }
+    return byDay.get(format(day, 'yyyy-MM-dd')) ?? null;
+  };
+
+  const isWeekendDay = (day: Date) => weekendDays.includes(day.getDay());
+
+  const disableDate = (day: Date) => {
+    if (minDate && isBefore(day, startOfDay(minDate))) return true;
+    if (maxDate && isAfter(day, endOfDay(maxDate))) return true;
+    if (disabledDaysOfWeek?.includes(day.getDay())) return true;
+    if (disabledDates?.some((d) => isSameDay(d, day))) return true;
+    if (
+      disabledRanges?.some(
+        ({ startDate, endDate }) =>
+          (startDate || endDate) &&
+          (!startDate || !isBefore(day, startOfDay(startDate))) &&
+          (!endDate || !isAfter(day, endOfDay(endDate)))
+      )
+    ) {
+      return true;
+    }
+    if (isDateDisabled?.(day)) return true;
+    if (disableHolidays && getHoliday(day)) return true;
+    return false;
+  };
+
+  // True when no day in [from, to] can be selected; disables cells of the month/year jump view
+  const isSpanFullyDisabled = (from: Date, to: Date) => {
+    let cursor = startOfDay(from);
+    while (!isAfter(cursor, to)) {
+      if (!disableDate(cursor)) return false;
+      cursor = addDays(cursor, 1);
+    }
+    return true;
+  };
+
+  // Apply disabledRangePolicy to a range whose days in between may be disabled.
+  // Returns null when the range must be rejected; 'clamp' keeps the `anchor` end, the one the
+  // user started from, and pulls the other end back to the day before the first disabled one.
+  const applyDisabledRangePolicy = (
+    range: DateRange,
+    anchor: 'start' | 'end' = 'start'
+  ): DateRange | null => {
+    const { startDate, endDate } = range;
+    if (disabledRangePolicy === 'allow' || !startDate || !endDate) return range;
+    const step = anchor === 'start' ? 1 : -1;
+    const far = startOfDay(anchor === 'start' ? endDate : startDate);
+    let cursor = addDays(startOfDay(anchor === 'start' ? startDate : endDate), step);
+    while (step > 0 ? !isAfter(cursor, far) : !isBefore(cursor, far)) {
+      if (disableDate(cursor)) {
+        if (disabledRangePolicy === 'reject') return null;
+        const lastAllowed = addDays(cursor, -step);
+        const moved = anchor === 'start' ? endDate : startDate;
+        const clamped = set(moved, {
+          year: lastAllowed.getFullYear(),
+          month: lastAllowed.getMonth(),
+          date: lastAllowed.getDate()
+        });
+        return anchor === 'start'
+          ? { startDate, endDate: clamped }
+          : { startDate: clamped, endDate };
+      }
+      cursor = addDays(cursor, step);
+    }
+    return range;
+  };
+
+  // Range length in calendar days, counting both ends
+  const getSpanDays = (a: Date, b: Date) => Math.abs(differenceInCalendarDays(b, a)) + 1;
+
+  const getSpanViolation = (range: DateRange): SpanViolation | null => {
+    const { startDate, endDate } = range;
+    if (singleDatePicker || !startDate || !endDate) return null;
+    const days = getSpanDays(startDate, endDate);
+    if (minSpan !== undefined && days < minSpan)
+      return { reason: 'minSpan', limit: minSpan, range };
+    if (maxSpan !== undefined && days > maxSpan)
+      return { reason: 'maxSpan', limit: maxSpan, range };
+    return null;
+  };
+
+  // Days the span limits rule out given the end already chosen: the free-range start,
+  // or in From-To mode the opposite calendar's date
+  const isOutsideSpan = (day: Date, calendarIndex?: number) => {
+    if (minSpan === undefined && maxSpan === undefined) return false;
+    const anchor = separateCalendars
+      ? calendarIndex === 0
+        ? tempRange.endDate
+        : tempRange.startDate
+      : tempRange.startDate && !tempRange.endDate
+        ? tempRange.startDate
+        : null;
+    if (!anchor) return false;
+    return !!getSpanViolation({ startDate: anchor, endDate: day });
+  };
+
+  // Widen a range to whole periods of the granularity, kept within minDate/maxDate
+  const snapRange = (range: DateRange): DateRange => {
+    if (granularity === 'day') return range;
+    let startDate = range.startDate && startOfPeriod(range.startDate, granularity, weekStartsOn);
+    let endDate = range.endDate && endOfPeriod(range.endDate, granularity, weekStartsOn);
+    if (startDate && minDate && isBefore(startDate, startOfDay(minDate))) {
+      startDate = startOfDay(minDate);
+    }
+    if (endDate && maxDate && isAfter(endDate, endOfDay(maxDate))) endDate = endOfDay(maxDate);
+    return { startDate, endDate };
+  };
+
+  // Preset results go through the same endpoint and span rules as clicked ranges
+  const resolvePresetRange = (preset: DateRange) => {
+    // A preset with nothing to select, e.g. "Year to date" excluding today on January 1st
+    if (!preset.startDate) return null;
+    const range = snapRange(preset);
+    if (range.startDate && disableDate(range.startDate)) return null;
+    if (range.endDate && disableDate(range.endDate)) return null;
+    return applyDisabledRangePolicy(range);
+  };
+
+  const isWithinRange = (day: Date, range: DateRange) =>
+    !!range.startDate &&
+    !!range.endDate &&
+    !isBefore(day, startOfDay(range.startDate)) &&
+    !isAfter(day, endOfDay(range.endDate));
+
+  const isActive = (day: Date) => {
+    if (mode === 'multiple') {
+      return tempDates.some((d) => isSameDay(d, day)) ? 'selected' : null;
+    }
+    // In multiRange mode the pending range sits alongside the completed ones
+    const ranges = mode === 'multiRange' ? [...tempRanges, tempRange] : [tempRange];
+    for (const range of ranges) {
+      if (range.startDate && isSameDay(day, range.startDate)) return 'start';
+      if (range.endDate && isSameDay(day, range.endDate)) return 'end';
+    }
+    return null;
+  };
+
+  // Preview from the picked start to the hovered day, stopped at the maxSpan limit
+  const hoverInterval = (() => {
+    const anchor = tempRange.startDate;
+    if (!anchor || tempRange.endDate || !hoverDate) return null;
+    const direction = isBefore(hoverDate, anchor) ? -1 : 1;
+    const hover =
+      maxSpan !== undefined && getSpanDays(anchor, hoverDate) > maxSpan
+        ? addDays(anchor, direction * (maxSpan - 1))
+        : hoverDate;
+    return {
+      start: startOfPeriod(isBefore(hover, anchor) ? hover : anchor, granularity, weekStartsOn),
+      end: endOfPeriod(isAfter(hover, anchor) ? hover : anchor, granularity, weekStartsOn)
+    };
+  })();
+
+  // Hover and paging happen in many places, so their callbacks fire when the result changes
+  const toInstant = (date: Date) => (timeZone ? fromZonedTime(date, timeZone) : date);
+  const hoverKey = hoverInterval
+    ? `${hoverInterval.start.getTime()}/${hoverInterval.end.getTime()}`
+    : '';
+  const viewKey = visibleMonths.map((month) => month.getTime()).join(',');
+  const reportHoverRef = useRef(() => {});
+  reportHoverRef.current = () =>
+    onHoverRangeChange?.(
+      hoverInterval
+        ? { startDate: toInstant(hoverInterval.start), endDate: toInstant(hoverInterval.end) }
+        : null
+    );
+  const reportViewRef = useRef(() => {});
+  reportViewRef.current = () => onViewChange?.(visibleMonths.map(toInstant));
+  const reportedRef = useRef({ hover: '', view: '' });
+
+  useEffect(() => {
+    if (reportedRef.current.hover === hoverKey) return;
+    reportedRef.current.hover = hoverKey;
+    reportHoverRef.current();
+  }, [hoverKey]);
+
+  useEffect(() => {
+    if (reportedRef.current.view === viewKey) return;
+    reportedRef.current.view = viewKey;
+    reportViewRef.current();
+  }, [viewKey]);
+
+  const isInRange = (day: Date) => {
+    if (mode === 'multiRange' && tempRanges.some((range) => isWithinRange(day, range))) {
+      return true;
+    }
+    if (tempRange.startDate && tempRange.endDate) {
+      return isWithinInterval(day, {
+        start: startOfDay(tempRange.startDate),
+        end: endOfDay(tempRange.endDate)
+      });
+    }
+    return !!hoverInterval && isWithinInterval(day, hoverInterval);
+  };
+
+  const getPaneForDate = (day: Date) => {
+    if (visibleMonths[focusedCalendar] && isSameMonth(day, visibleMonths[focusedCalendar])) {
+      return focusedCalendar;
+    }
+    return visibleMonths.findIndex((month) => isSameMonth(day, month));
+  };
+
+  // Day holding the tab stop: the focused day if visible, else the selection, today or month start
+  const rovingDate = (() => {
+    const candidates = [
+      focusedDate,
+      tempRange.startDate,
+      tempDates[0],
+      tempRanges[0]?.startDate,
+      getToday()
+    ];
+    const visible = candidates.find((d) => d && getPaneForDate(d) >= 0);
+    return visible ?? visibleMonths[0];
+  })();
+  const rovingCalendar = Math.max(getPaneForDate(rovingDate), 0);
+
+  const moveFocus = (target: Date, calendarIndex: number) => {
+    let next = startOfDay(target);
+    if (minDate && isBefore(next, startOfDay(minDate))) next = startOfDay(minDate);
+    if (maxDate && isAfter(next, endOfDay(maxDate))) next = startOfDay(maxDate);
+    const nextMonth = startOfMonth(next);
+    let pane = calendarIndex;
+    const shown = visibleMonths.findIndex((month) => isSameMonth(month, next));
+    const last = visibleMonths.length - 1;
+
+    if (separateCalendars) {
+      // From-To mode: each calendar pages on its own
+      if (shown !== calendarIndex) handleMonthYearChange(calendarIndex, nextMonth);
+    } else if (shown >= 0) {
+      pane = shown;
+    } else if (isBefore(nextMonth, visibleMonths[0])) {
+      handleMonthYearChange(0, nextMonth);
+      pane = 0;
+    } else if (isAfter(nextMonth, visibleMonths[last])) {
+      handleMonthYearChange(last, nextMonth);
+      pane = last;
+    } else {
+      // Between two non-adjacent panes: the pane the focus came from follows it
+      handleMonthYearChange(calendarIndex, nextMonth);
+    }
+
+    setFocusedDate(next);
+    setFocusedCalendar(pane);
+    if (!singleDatePicker && !separateCalendars) setHoverDate(next);
+    shouldFocusDayRef.current = true;
+  };
+
+  const handleDayKeyDown = (
+    event: ReactKeyboardEvent<HTMLElement>,
+    day: Date,
+    calendarIndex: number
+  ) => {
+    const byYear = event.shiftKey;
+    let target: Date | null = null;
+    switch (event.key) {
+      case 'ArrowLeft':
+        target = addDays(day, -1);
+        break;
+      case 'ArrowRight':
+        target = addDays(day, 1);
+        break;
+      case 'ArrowUp':
+        target = addDays(day, -7);
+        break;
+      case 'ArrowDown':
+        target = addDays(day, 7);
+        break;
+      case 'PageUp':
+        target = byYear ? addYears(day, -1) : addMonths(day, -1);
+        break;
+      case 'PageDown':
+        target = byYear ? addYears(day, 1) : addMonths(day, 1);
+        break;
+      case 'Home':
+        target = startOfWeek(day, { weekStartsOn });
+        break;
+      case 'End':
+        target = endOfWeek(day, { weekStartsOn });
+        break;
+      case 'Enter':
+      case ' ':
+        event.preventDefault();
+        setFocusedDate(day);
+        setFocusedCalendar(calendarIndex);
+        shouldFocusDayRef.current = true;
+        handleDayClick(day, calendarIndex);
+        return;
+      default:
+        return;
+    }
+    event.preventDefault();
+    moveFocus(target, calendarIndex);
+  };
+
+  const openWithKeyboard = (event: ReactKeyboardEvent<HTMLElement>) => {
+    if (event.key !== 'ArrowDown' || open) return;
+    event.preventDefault();
+    setOpen(true);
+    shouldFocusDayRef.current = true;
+  };
+
+  // The latest selectable minute of a day given the minute increment
+  const lastMinute = 59 - (59 % timePickerIncrement);
+
+  const withClock = (day: Date, clock: Date | null, fallback: 'start' | 'end') =>
+    set(day, {
+      hours: clock ? clock.getHours() : fallback === 'start' ? 0 : 23,
+      minutes: clock ? clock.getMinutes() : fallback === 'start' ? 0 : lastMinute,
+      seconds: clock ? clock.getSeconds() : fallback === 'start' || !timePickerSeconds ? 0 : 59,
+      milliseconds: 0
+    });
+
+  // Day clicks only pick dates; in time picker mode keep the times already chosen
+  const keepTimes = (range: DateRange): DateRange => {
+    if (!timePicker) return range;
+    const startDate =
+      range.startDate &&
+      withClock(range.startDate, tempRange.startDate ?? value.startDate, 'start');
+    let endDate =
+      range.endDate && withClock(range.endDate, tempRange.endDate ?? value.endDate, 'end');
+    if (startDate && endDate && isAfter(startDate, endDate)) endDate = startDate;
+    return { startDate, endDate };
+  };
+
+  // Leave the popover open after a day click so the time can still be adjusted
+  const closeOnDaySelect = closeOnSelect && !timePicker;
+
+  const reportStartDate = (date: Date) => onStartDateSelect?.(toInstant(date));
+
+  const handleDayClick = (clickedDay: Date, calendarIndex?: number) => {
+    // A month, quarter or year cell can be picked while any of its days is selectable
+    const blocked = periodView
+      ? isSpanFullyDisabled(clickedDay, endOfPeriod(clickedDay, granularity))
+      : disableDate(clickedDay) || isOutsideSpan(clickedDay, calendarIndex);
+    if (blocked) return;
+
+    if (mode === 'multiple') {
+      // Clicking a selected day toggles it off
+      const selected = tempDates.some((d) => isSameDay(d, clickedDay));
+      if (!selected && maxSelections !== undefined && tempDates.length >= maxSelections) return;
+      const next = selected
+        ? tempDates.filter((d) => !isSameDay(d, clickedDay))
+        : [...tempDates, clickedDay].sort(compareAsc);
+      setTempDates(next);
+      setAnnouncement(next.length ? labels.datesSelected(next.length) : labels.selectionCleared);
+      if (autoApply) emitMulti(next, tempRanges);
+      return;
+    }
+
+    if (mode === 'multiRange') {
+      const pending = tempRange.startDate;
+      if (!pending) {
+        // Clicking inside a completed range removes it
+        const hit = tempRanges.findIndex((range) => isWithinRange(clickedDay, range));
+        if (hit >= 0) {
+          const next = tempRanges.filter((_, i) => i !== hit);
+          setTempRanges(next);
+          setAnnouncement(
+            next.length ? labels.rangesSelected(next.length) : labels.selectionCleared
+          );
+          if (autoApply) emitMulti(tempDates, next);
+          return;
+        }
+        if (maxSelections !== undefined && tempRanges.length >= maxSelections) return;
+        selectRange({ startDate: clickedDay, endDate: null });
+        reportStartDate(clickedDay);
+        setHoverDate(null);
+        return;
+      }
+      const backwards = isBefore(clickedDay, pending);
+      const ordered = backwards
+        ? { startDate: clickedDay, endDate: pending }
+        : { startDate: pending, endDate: clickedDay };
+      const allowed = applyDisabledRangePolicy(ordered, backwards ? 'end' : 'start');
+      if (!allowed || getSpanViolation(allowed)) return;
+      const next = [...tempRanges, allowed].sort((a, b) =>
+        compareAsc(a.startDate as Date, b.startDate as Date)
+      );
+      setTempRanges(next);
+      setTempRange(emptyRange);
+      setAnnouncement(labels.rangesSelected(next.length));
+      if (autoApply) emitMulti(tempDates, next);
+      return;
+    }
+
+    if (singleDatePicker) {
+      const day = timePicker
+        ? withClock(clickedDay, tempRange.startDate ?? value.startDate, 'start')
+        : clickedDay;
+      const next = snapRange({ startDate: day, endDate: day });
+      selectRange(next);
+      if (autoApply) {
+        onChange(next);
+        if (closeOnDaySelect) setOpen(false, 'select');
+      }
+      return;
+    }
+
+    const day = clickedDay;
+
+    if (separateCalendars && calendarIndex !== undefined) {
+      // Range_FromTo mode: left calendar sets start, right calendar sets end
+      // Calendar views remain fixed and don't change when selecting dates
+      if (calendarIndex === 0) {
+        // Left calendar: set startDate
+        const end = tempRange.endDate;
+        // The date already on the other calendar stays put
+        const swapped = !!end && isAfter(day, end);
+        let newRange: DateRange;
+        if (swapped) {
+          // If new start is after current end, swap them
+          newRange = { startDate: end, endDate: day };
+        } else {
+          newRange = { startDate: day, endDate: end };
+        }
+        const allowed = applyDisabledRangePolicy(
+          snapRange(keepTimes(newRange)),
+          swapped ? 'start' : 'end'
+        );
+        if (!allowed || getSpanViolation(allowed)) return;
+        newRange = allowed;
+        selectRange(newRange);
+        if (newRange.startDate && !newRange.endDate) reportStartDate(newRange.startDate);
+        if (autoApply && newRange.startDate && newRange.endDate) {
+          onChange(newRange);
+          if (closeOnDaySelect) setOpen(false, 'select');
+        }
+      } else {
+        // Right calendar: set endDate
+        const start = tempRange.startDate;
+        const swapped = !!start && isBefore(day, start);
+        let newRange: DateRange;
+        if (swapped) {
+          // If new end is before current start, swap them
+          newRange = { startDate: day, endDate: start };
+        } else {
+          newRange = { startDate: start, endDate: day };
+        }
+        const allowed = applyDisabledRangePolicy(
+          snapRange(keepTimes(newRange)),
+          swapped ? 'end' : 'start'
+        );
+        if (!allowed || getSpanViolation(allowed)) return;
+        newRange = allowed;
+        selectRange(newRange);
+        if (autoApply && newRange.startDate && newRange.endDate) {
+          onChange(newRange);
+          if (closeOnDaySelect) setOpen(false, 'select');
+        }
+      }
+      return;
+    }
+
+    // Free range mode: original behavior
+    if (!tempRange.startDate || (tempRange.startDate && tempRange.endDate)) {
+      const next = snapRange(keepTimes({ startDate: day, endDate: null }));
+      selectRange(next);
+      if (next.startDate) reportStartDate(next.startDate);
+      setHoverDate(null);
+      return;
+    }
+
+    const start = tempRange.startDate;
+    if (!start) return;
+
+    // A range picked backwards is anchored on its end, the day clicked first
+    const backwards = isBefore(day, start);
+    let newRange: DateRange;
+    if (backwards) {
+      newRange = { startDate: day, endDate: start };
+    } else {
+      newRange = { startDate: start, endDate: day };
+    }
+    const allowed = applyDisabledRangePolicy(
+      snapRange(keepTimes(newRange)),
+      backwards ? 'end' : 'start'
+    );
+    if (!allowed || getSpanViolation(allowed)) return;
+    newRange = allowed;
+    selectRange(newRange);
+    if (autoApply) {
+      onChange(newRange);
+      if (closeOnDaySelect) setOpen(false, 'select');
+    }
+  };
+
+  const applyPreset = (preset: PresetRange, index: number) => {
+    const next = resolvePresetRange(preset.range(getToday()));
+    if (!next) return;
+    const violation = getSpanViolation(next);
+    if (violation) {
+      onSpanViolation?.(violation);
+      return;
+    }
+    selectRange(next);
+    onPresetSelect?.(preset, index);
+    if (autoApply) {
+      onChange(next);
+      if (closeOnSelect) setOpen(false, 'select');
+    }
+  };
+
+  const applyPresetDate = (preset: PresetDate, index: number) => {
+    const d = preset.date(getToday());
+    if (disableDate(d)) return;
+    const next = snapRange({ startDate: d, endDate: d });
+    selectRange(next);
+    onPresetSelect?.(preset, index);
+    // Sync calendar view to selected date
+    setViewMonths(linkedMonths(d));
+    if (autoApply) {
+      onChange(next);
+      if (closeOnSelect) setOpen(false, 'select');
+    }
+  };
+
+  const handleTimeChange = (
+    calendarIndex: number,
+    time: { hours?: number; minutes?: number; seconds?: number }
+  ) => {
+    const target = calendarIndex === 0 ? tempRange.startDate : tempRange.endDate;
+    if (!target) return;
+    const changed = set(target, time);
+    let next: DateRange;
+    if (singleDatePicker) {
+      next = { startDate: changed, endDate: changed };
+    } else if (calendarIndex === 0) {
+      const end = tempRange.endDate;
+      next = { startDate: changed, endDate: end && isAfter(changed, end) ? changed : end };
+    } else {
+      const start = tempRange.startDate;
+      next = { startDate: start, endDate: start && isBefore(changed, start) ? start : changed };
+    }
+    setTempRange(next);
+    if (autoApply && next.startDate && next.endDate) {
+      onChange(next);
+    }
+  };
+
+  const handleApply = () => {
+    if (isMulti) emitMulti(tempDates, tempRanges);
+    else onChange(tempRange);
+    setOpen(false, 'apply');
+  };
+
+  const handleCancel = () => {
+    setTempRange(value);
+    setTempDates(multiDates);
+    setTempRanges(multiRanges);
+    onCancel?.();
+    setOpen(false, 'cancel');
+  };
+
+  const clearSelection = () => {
+    if (locked) return;
+    selectRange(emptyRange);
+    if (isMulti) {
+      setTempDates(noDates);
+      setTempRanges(noRanges);
+      emitMulti(noDates, noRanges);
+    } else {
+      onChange(emptyRange);
+    }
+    onClear?.();
+  };
+
+  // Programmatic selection of instants, checked and committed like a preset
+  const setRange = (range: DateRange) => {
+    if (isMulti) return;
+    const next = resolvePresetRange(timeZone ? zoneRange(range, timeZone) : range);
+    if (!next) return;
+    const violation = getSpanViolation(next);
+    if (violation) {
+      onSpanViolation?.(violation);
+      return;
+    }
+    selectRange(next);
+    commitRange(next);
+  };
+
+  // Show `month` in the first pane, e.g. from a guided tour
+  const navigateTo = (month: Date) => setViewMonths(linkedMonths(month));
+
+  // Week number click in range mode: select the row's selectable days as one range
+  const selectWeek = (week: Date[]) => {
+    const selectable = week.filter((d) => !disableDate(d));
+    if (!selectable.length) return;
+    const allowed = applyDisabledRangePolicy(
+      snapRange({ startDate: selectable[0], endDate: endOfDay(selectable[selectable.length - 1]) })
+    );
+    if (!allowed || getSpanViolation(allowed)) return;
+    selectRange(allowed);
+    setHoverDate(null);
+    if (autoApply) {
+      onChange(allowed);
+      if (closeOnSelect) setOpen(false, 'select');
+    }
+  };
+
+  // Arrow keys walk the month/quarter/year cells; Enter and Space click them natively
+  const handlePeriodKeyDown = (event: ReactKeyboardEvent<HTMLElement>, columns: number) => {
+    const offsets: Record<string, number> = {
+      ArrowLeft: -1,
+      ArrowRight: 1,
+      ArrowUp: -columns,
+      ArrowDown: columns
+    };
+    const offset = offsets[event.key];
+    if (!offset) return;
+    event.preventDefault();
+    const grid = event.currentTarget.closest('[role="grid"]');
+    const cells = Array.from(grid?.querySelectorAll<HTMLElement>('[role="gridcell"]') ?? []);
+    cells[cells.indexOf(event.currentTarget) + offset]?.focus();
+  };
+
+  // Arrows move one pane by a month; linked panes all follow, the others stay in order
+  const goPrev = (calendarIndex: number) => {
+    if (!getCanGoPrev(calendarIndex)) return;
+    if (periodView) {
+      setViewMonths([addYears(periodViewStart(visibleMonths[0]), -periodViewYears)]);
+      return;
+    }
+    handleMonthYearChange(calendarIndex, addMonths(visibleMonths[calendarIndex], -1));
+  };
+
+  const goNext = (calendarIndex: number) => {
+    if (!getCanGoNext(calendarIndex)) return;
+    if (periodView) {
+      setViewMonths([addYears(periodViewStart(visibleMonths[0]), periodViewYears)]);
+      return;
+    }
+    handleMonthYearChange(calendarIndex, addMonths(visibleMonths[calendarIndex], 1));
+  };
+
+  // Whether a pane may not move to the month of `date`: independent panes must not cross,
+  // and in From-To mode each stays on its side of the selection
+  const isViewMonthBlocked = (calendarIndex: number, date: Date) => {
+    if (linkedPaging) return false;
+    const month = startOfMonth(date);
+    if (separateCalendars) {
+      if (calendarIndex === 0) {
+        return !!tempRange.endDate && !isBefore(month, startOfMonth(tempRange.endDate));
+      }
+      return !!tempRange.startDate && !isAfter(month, startOfMonth(tempRange.startDate));
+    }
+    const before = visibleMonths[calendarIndex - 1];
+    const after = visibleMonths[calendarIndex + 1];
+    return (!!before && !isAfter(month, before)) || (!!after && !isBefore(month, after));
+  };
+
+  // Cells of the month/quarter/year grid, starting at the shown year
+  const periodGridStart = periodViewStart(visibleMonths[0]);
+  const periods =
+    granularity === 'month' || granularity === 'quarter' || granularity === 'year'
+      ? Array.from({ length: granularity === 'quarter' ? 4 : 12 }, (_, i) =>
+          granularity === 'year'
+            ? addYears(periodGridStart, i)
+            : addMonths(periodGridStart, granularity === 'quarter' ? i * 3 : i)
+        )
+      : [];
+  const periodTitle =
+    granularity === 'year'
+      ? `${format(periodGridStart, 'yyyy')} – ${format(addYears(periodGridStart, 11), 'yyyy')}`
+      : format(periodGridStart, 'yyyy');
+  const isSamePeriod = (a: Date, b: Date) =>
+    isSameDay(
+      startOfPeriod(a, granularity, weekStartsOn),
+      startOfPeriod(b, granularity, weekStartsOn)
+    );
+  const periodTabStop =
+    periods.find((p) => tempRange.startDate && isSamePeriod(p, tempRange.startDate)) ??
+    periods.find((p) => isSamePeriod(p, getToday())) ??
+    periods[0];
+
+  const getPeriodState = (start: Date) => {
+    const isStart = !!tempRange.startDate && isSamePeriod(start, tempRange.startDate);
+    const isEnd = !!tempRange.endDate && isSamePeriod(start, tempRange.endDate);
+    return {
+      disabled: isSpanFullyDisabled(start, endOfPeriod(start, granularity)),
+      isStart,
+      isEnd,
+      inRange: !singleDatePicker && isInRange(start),
+      isCurrent: isSamePeriod(start, getToday())
+    };
+  };
+
+  const getDayState = (day: Date, calendarIndex: number, month: Date): DayState => {
+    const outsideMonth = !isSameMonth(day, month);
+    const active = isActive(day);
+    return {
+      active,
+      isStart: active === 'start',
+      isEnd: active === 'end',
+      inRange: singleDatePicker ? false : isInRange(day),
+      isHovered: !!hoverDate && isSameDay(day, hoverDate),
+      disabled: disableDate(day) || isOutsideSpan(day, calendarIndex),
+      isToday: isSameDay(day, getToday()),
+      isWeekend: isWeekendDay(day),
+      holiday: getHoliday(day),
+      outsideMonth,
+      isTabStop: !outsideMonth && calendarIndex === rovingCalendar && isSameDay(day, rovingDate)
+    };
+  };
+
+  // Week granularity previews the whole week under the pointer
+  const isWeekHovered = (week: Date[]) =>
+    granularity === 'week' && !!hoverDate && week.some((d) => isSameDay(d, hoverDate));
+
+  const presets: (PresetRange | PresetDate)[] = singleDatePicker
+    ? (presetDates ?? defaultSinglePresets)
+    : presetRanges;
+  const hasValue =
+    !!(value.startDate || value.endDate) || multiDates.length > 0 || multiRanges.length > 0;
+  const setTriggerRef = (element: HTMLElement | null) => {
+    triggerRef.current = element;
+  };
+  const toggleOpen = () => setOpen((prev) => !prev, 'trigger');
+  const dialogLabel = singleDatePicker ? labels.singleDialog : labels.rangeDialog;
+
+  // Form reset goes back to the value the picker started with
+  const initialValueRef = useRef({ range: value, dates: multiDates, ranges: multiRanges });
+  const handleFormReset = () => {
+    const initial = initialValueRef.current;
+    if (isMulti) commitMulti(initial.dates, initial.ranges);
+    else commitRange(initial.range);
+    setOpen(false);
+    setInputError(null);
+  };
+  const formResetRef = useRef(handleFormReset);
+  formResetRef.current = handleFormReset;
+
+  useEffect(() => {
+    const form = containerRef.current?.closest('form');
+    if (!form) return;
+    const handleReset = () => formResetRef.current();
+    form.addEventListener('reset', handleReset);
+    return () => form.removeEventListener('reset', handleReset);
+  }, []);
+
+  // ISO text of the committed value for submitted fields, wall-clock in `timeZone`
+  const isoOptions = { withTime: timePicker };
+  const isoValue = serializeRangeValue('isoDate', value, isoOptions);
+  const formFields: { name: string; value: string }[] = [];
+  if (name) {
+    if (mode === 'multiple') {
+      multiDates.forEach((d) => formFields.push({ name, value: format(d, isoDateFormat) }));
+    } else if (mode === 'multiRange') {
+      multiRanges.forEach((r) =>
+        formFields.push({ name, value: serializeRangeValue('isoInterval', r) })
+      );
+    } else {
+      formFields.push({
+        name,
+        value: singleDatePicker
+          ? (isoValue.startDate ?? '')
+          : serializeRangeValue('isoInterval', value, isoOptions)
+      });
+    }
+  }
+  if (startName && !isMulti) formFields.push({ name: startName, value: isoValue.startDate ?? '' });
+  if (endName && !isMulti && !singleDatePicker) {
+    formFields.push({ name: endName, value: isoValue.endDate ?? '' });
+  }
+
+  // Hidden inputs are never validated, so a transparent stand-in carries the required check
+  const validationRef = useRef<HTMLInputElement | null>(null);
+  const isIncomplete =
+    mode === 'multiple'
+      ? !multiDates.length
+      : mode === 'multiRange'
+        ? !multiRanges.length
+        : !value.startDate || (!singleDatePicker && !value.endDate);
+  const validationMessage =
+    required && isIncomplete
+      ? singleDatePicker || mode === 'multiple'
+        ? labels.requiredDate
+        : labels.requiredRange
+      : '';
+
+  useEffect(() => {
+    validationRef.current?.setCustomValidity(validationMessage);
+  }, [validationMessage, required]);
+
+  const getContainerProps = () => ({
+    ref: containerRef,
+    onFocus: (event: ReactFocusEvent<HTMLElement>) => {
+      if (!isInsidePicker(event.relatedTarget)) onFocus?.(event);
+    },
+    onBlur: (event: ReactFocusEvent<HTMLElement>) => {
+      if (!isInsidePicker(event.relatedTarget)) onBlur?.(event);
+    }
+  });
+
+  const getHiddenInputProps = () =>
+    formFields.map((field) => ({ type: 'hidden', name: field.name, value: field.value, disabled }));
+
+  const getValidationInputProps = () => ({
+    ref: validationRef,
+    tabIndex: -1,
+    disabled,
+    'aria-hidden': true,
+    // The browser focuses the stand-in to report it; pass focus on to the real control
+    onFocus: focusTrigger
+  });
+
+  const getTriggerProps = () => ({
+    type: 'button' as const,
+    ref: setTriggerRef,
+    disabled: disabled || undefined,
+    onClick: toggleOpen,
+    onKeyDown: openWithKeyboard,
+    'aria-haspopup': 'dialog' as const,
+    'aria-expanded': open,
+    'aria-controls': open ? popoverId : undefined
+  });
+
+  const getInputProps = () => ({
+    type: 'text',
+    ref: setTriggerRef,
+    disabled: disabled || undefined,
+    readOnly: readOnly || undefined,
+    value: textValue,
+    onChange: (event: ReactChangeEvent<HTMLInputElement>) => {
+      appliedTextRef.current = null;
+      setTextValue(event.target.value);
+    },
+    onClick: toggleOpen,
+    onBlur: handleInputBlur,
+    onKeyDown: (event: ReactKeyboardEvent<HTMLInputElement>) => {
+      if (event.key === 'Enter') {
+        applyInputText();
+      }
+      openWithKeyboard(event);
+    },
+    placeholder: singleDatePicker
+      ? displayFormat
+      : `${displayFormat} ${rangeSeparator} ${displayFormat}`,
+    'aria-invalid': inputError ? true : undefined,
+    'aria-haspopup': 'dialog' as const,
+    'aria-expanded': open,
+    'aria-controls': open ? popoverId : undefined
+  });
+
+  // Masked input: the group wrapping both sides, then the props of each side's segments
+  const getSegmentsProps = () => ({
+    ref: setTriggerRef,
+    role: 'group',
+    onClick: () => setOpen(true),
+    onBlur: handleSegmentsBlur,
+    'aria-label': dialogLabel,
+    'aria-invalid': inputError ? true : undefined
+  });
+
+  const getSegmentProps = (side: 'start' | 'end') => ({
+    pattern: displayFormat,
+    date: side === 'start' ? value.startDate : value.endDate,
+    labels,
+    groupLabel:
+      side === 'end' ? labels.endDate : singleDatePicker ? labels.selectDate : labels.startDate,
+    locale,
+    disabled,
+    readOnly,
+    onChange: (text: string | null) => handleSegmentsChange(side, text),
+    onEnter: () => setOpen(false, 'select')
+  });
+
+  const getPopoverProps = () => ({
+    id: popoverId,
+    ref: popoverRef,
+    style: popoverPosition.style,
+    'data-placement': inline ? undefined : popoverPosition.placement,
+    role: inline ? 'group' : 'dialog',
+    'aria-label': dialogLabel
+  });
+
+  // Presets a click would refuse, for being unavailable or outside the span limits
+  const isPresetDisabled = (preset: PresetRange | PresetDate) => {
+    if (singleDatePicker) return disableDate((preset as PresetDate).date(getToday()));
+    const range = resolvePresetRange((preset as PresetRange).range(getToday()));
+    return !range || !!getSpanViolation(range);
+  };
+
+  const getPresetProps = (index: number) => {
+    const preset = presets[index];
+    return {
+      type: 'button' as const,
+      disabled: isPresetDisabled(preset),
+      onClick: () =>
+        singleDatePicker
+          ? applyPresetDate(preset as PresetDate, index)
+          : applyPreset(preset as PresetRange, index)
+    };
+  };
+
+  const getPrevButtonProps = (calendarIndex: number) => ({
+    type: 'button' as const,
+    onClick: () => goPrev(calendarIndex),
+    disabled: !getCanGoPrev(calendarIndex),
+    'aria-label': !periodView
+      ? labels.previousMonth
+      : granularity === 'year'
+        ? labels.previousYears
+        : labels.previousYear
+  });
+
+  const getNextButtonProps = (calendarIndex: number) => ({
+    type: 'button' as const,
+    onClick: () => goNext(calendarIndex),
+    disabled: !getCanGoNext(calendarIndex),
+    'aria-label': !periodView
+      ? labels.nextMonth
+      : granularity === 'year'
+        ? labels.nextYears
+        : labels.nextYear
+  });
+
+  const getDayProps = (day: Date, calendarIndex: number, month: Date) => {
+    const { disabled, active, inRange, outsideMonth, isTabStop, isToday } = getDayState(
+      day,
+      calendarIndex,
+      month
+    );
+    return {
+      type: 'button' as const,
+      role: 'gridcell',
+      tabIndex: isTabStop ? 0 : -1,
+      onClick: () => handleDayClick(day, calendarIndex),
+      onKeyDown: (event: ReactKeyboardEvent<HTMLElement>) =>
+        handleDayKeyDown(event, day, calendarIndex),
+      onFocus: () => {
+        if (outsideMonth) return;
+        setFocusedDate(day);
+        setFocusedCalendar(calendarIndex);
+      },
+      onMouseEnter: () => {
+        if (granularity === 'week' || (!singleDatePicker && !separateCalendars)) {
+          setHoverDate(day);
+        }
+      },
+      onMouseLeave: () => {
+        if (granularity === 'week' || !singleDatePicker) setHoverDate(null);
+      },
+      'aria-label': [
+        format(day, 'PPPP', { locale }),
+        active === 'start' && !singleDatePicker ? labels.startDay : null,
+        active === 'end' ? labels.endDay : null
+      ]
+        .filter(Boolean)
+        .join(', '),
+      'aria-selected': !!active || inRange,
+      'aria-current': isToday ? ('date' as const) : undefined,
+      'aria-disabled': disabled || undefined
+    };
+  };
+
+  // Only range mode turns week numbers into buttons that select the week
+  const canSelectWeeks = !singleDatePicker && !isMulti;
+
+  const getWeekNumberProps = (week: Date[], weekNumber: number) => ({
+    type: 'button' as const,
+    role: 'rowheader',
+    tabIndex: -1,
+    disabled: week.every((d) => disableDate(d)),
+    onClick: () => selectWeek(week),
+    'aria-label': labels.selectWeek(weekNumber)
+  });
+
+  const getPeriodProps = (start: Date, columns: number) => {
+    const { disabled, isStart, isEnd, inRange, isCurrent } = getPeriodState(start);
+    return {
+      type: 'button' as const,
+      role: 'gridcell',
+      tabIndex: periodTabStop && isSameDay(start, periodTabStop) ? 0 : -1,
+      onClick: () => handleDayClick(start, 0),
+      onKeyDown: (event: ReactKeyboardEvent<HTMLElement>) => handlePeriodKeyDown(event, columns),
+      onMouseEnter: () => {
+        if (!singleDatePicker) setHoverDate(start);
+      },
+      onMouseLeave: () => {
+        if (!singleDatePicker) setHoverDate(null);
+      },
+      'aria-label': [
+        format(start, periodLabelFormats[granularity as 'month' | 'quarter' | 'year'], {
+          locale
+        }),
+        isStart && !singleDatePicker ? labels.startDay : null,
+        isEnd && !singleDatePicker ? labels.endDay : null
+      ]
+        .filter(Boolean)
+        .join(', '),
+      'aria-selected': isStart || isEnd || inRange,
+      'aria-current': isCurrent ? ('date' as const) : undefined,
+      'aria-disabled': disabled || undefined
+    };
+  };
+
+  return {
+    // Resolved configuration
+    mode,
+    isMulti,
+    singleDatePicker,
+    granularity,
+    periodView,
+    editable,
+    showPresets,
+    separateCalendars,
+    linkedPaging,
+    autoApply,
+    inline,
+    mobile,
+    timeZone,
+    minDate,
+    maxDate,
+    required,
+    disabled,
+    readOnly,
+    timePicker,
+    timePicker24Hour,
+    timePickerIncrement,
+    timePickerSeconds,
+    displayFormat,
+    rangeSeparator,
+    weekStartsOn,
+    weekNumbers,
+    locale,
+    labels,
+    // State
+    open,
+    value,
+    tempRange,
+    tempDates,
+    tempRanges,
+    hoverDate,
+    visibleMonths,
+    textValue,
+    inputError,
+    label,
+    announcement,
+    hasValue,
+    presets,
+    matchedPresetIndex,
+    segmentsSupported,
+    segmentsKey,
+    periods,
+    periodTitle,
+    canSelectWeeks,
+    containerRef,
+    portalTarget,
+    // Actions
+    setOpen,
+    setTextValue,
+    setViewMonth: handleMonthYearChange,
+    goPrev,
+    goNext,
+    selectDay: handleDayClick,
+    selectWeek,
+    applyText,
+    setTime: handleTimeChange,
+    apply: handleApply,
+    cancel: handleCancel,
+    clear: clearSelection,
+    setRange,
+    navigateTo,
+    focus: focusTrigger,
+    // Queries
+    isDateDisabled: disableDate,
+    isSpanFullyDisabled,
+    getHoliday,
+    isWeekendDay,
+    isViewMonthBlocked,
+    isWeekHovered,
+    getDayState,
+    getPeriodState,
+    // Prop-getters
+    getContainerProps,
+    getHiddenInputProps,
+    getValidationInputProps,
+    getTriggerProps,
+    getInputProps,
+    getSegmentsProps,
+    getSegmentProps,
+    getPopoverProps,
+    getPresetProps,
+    getPrevButtonProps,
+    getNextButtonProps,
+    getDayProps,
+    getWeekNumberProps,
+    getPeriodProps
+  };
+};
+
+export default useDateRangePicker;
@@ -0,0 +1,120 @@
+import { useEffect, useLayoutEffect, useRef, useState } from 'react';
+import type { CSSProperties, RefObject } from 'react';
+
+export type PopoverPlacement = 'bottom-start' | 'bottom-end' | 'top-start' | 'top-end';
+
+export type UsePopoverPositionOptions = {
+  open: boolean;
+  /** Element the popover is aligned to */
+  anchorRef: RefObject<HTMLElement | null>;
+  popoverRef: RefObject<HTMLElement | null>;
+  placement?: PopoverPlacement;
+  /** Flip to the opposite side and shift along the edge when the popover would overflow */
+  flip?: boolean;
+  /** Position against the viewport, for a popover rendered outside the anchor's container */
+  fixed?: boolean;
+};
+
+// Distance between anchor and popover, and the minimum margin kept from the viewport edges
+const gap = 8;
+const viewportPadding = 8;
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(value, max));
+
+/**
+ * Places the popover next to its anchor and keeps it on screen: the preferred side is swapped
+ * when only the other one has room, and the popover slides back inside the viewport edges.
+ * Recomputed on every render while open and on scroll and resize.
+ */
+const usePopoverPosition = ({
+  open,
+  anchorRef,
+  popoverRef,
+  placement = 'bottom-start',
+  flip = true,
+  fixed = false
+}: UsePopoverPositionOptions) => {
+  const [position, setPosition] = useState<{
+    top: number;
+    left: number;
+    placement: PopoverPlacement;
+  } | null>(null);
+
+  const update = () => {
+    const anchor = anchorRef.current;
+    const popover = popoverRef.current;
+    if (!anchor || !popover) return;
+    const anchorRect = anchor.getBoundingClientRect();
+    const { offsetWidth: width, offsetHeight: height } = popover;
+    const viewportWidth = document.documentElement.clientWidth;
+    const viewportHeight = document.documentElement.clientHeight;
+
+    let [side, align] = placement.split('-') as ['top' | 'bottom', 'start' | 'end'];
+    if (flip) {
+      const below = viewportHeight - anchorRect.bottom - gap;
+      const above = anchorRect.top - gap;
+      if (side === 'bottom' && height > below && above > below) side = 'top';
+      else if (side === 'top' && height > above && below > above) side = 'bottom';
+      const endAligned = anchorRect.right - width;
+      if (align === 'start' && anchorRect.left + width > viewportWidth && endAligned >= 0) {
+        align = 'end';
+      } else if (align === 'end' && endAligned < 0 && anchorRect.left + width <= viewportWidth) {
+        align = 'start';
+      }
+    }
+
+    let top = side === 'bottom' ? anchorRect.bottom + gap : anchorRect.top - gap - height;
+    let left = align === 'start' ? anchorRect.left : anchorRect.right - width;
+    if (flip) {
+      left = clamp(left, viewportPadding, viewportWidth - width - viewportPadding);
+      top = clamp(top, viewportPadding, viewportHeight - height - viewportPadding);
+      // A popover larger than the viewport keeps its top-left corner visible
+      left = Math.max(left, viewportPadding);
+      top = Math.max(top, viewportPadding);
+    }
+    if (!fixed) {
+      // Absolute positioning is relative to the anchor's box
+      top -= anchorRect.top;
+      left -= anchorRect.left;
+    }
+
+    const next = { top, left, placement: `${side}-${align}` as PopoverPlacement };
+    setPosition((prev) =>
+      prev && prev.top === next.top && prev.left === next.left && prev.placement === next.placement
+        ? prev
+        : next
+    );
+  };
+
+  // Listeners always run the latest measurement without re-subscribing each render
+  const updateRef = useRef(update);
+  updateRef.current = update;
+
+  // Measure before paint so the popover never flashes at its unflipped spot
+  useLayoutEffect(() => {
+    if (open) updateRef.current();
+  });
+
+  useEffect(() => {
+    if (!open) return;
+    const handleChange = () => updateRef.current();
+    // Capture scrolls of any ancestor, not only the window
+    window.addEventListener('scroll', handleChange, true);
+    window.addEventListener('resize', handleChange);
+    return () => {
+      window.removeEventListener('scroll', handleChange, true);
+      window.removeEventListener('resize', handleChange);
+    };
+  }, [open]);
+
+  const current = open ? position : null;
+  const style: CSSProperties | undefined = current
+    ? { position: fixed ? 'fixed' : 'absolute', top: current.top, left: current.left }
+    : fixed
+      ? { position: 'fixed', top: 0, left: 0, visibility: 'hidden' }
+      : undefined;
+
+  return { style, placement: current?.placement ?? placement };
+};
+
+export default usePopoverPosition;
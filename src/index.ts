@@ -1,3 +1,44 @@
-export type { DateRange } from './types';
-export type { PresetRange } from './components/DateRangePicker';
+export type { CalendarDateRange, DateRange } from './types';
+export type {
+  CloseReason,
+  DateRangePickerLabels,
+  DateRangeSelection,
+  DayState,
+  DisabledRangePolicy,
+  Granularity,
+  PagingMode,
+  PresetDate,
+  PresetRange,
+  SelectionMode,
+  SpanViolation,
+  UseDateRangePickerOptions,
+  ValidationError,
+  ValidationErrorReason,
+  WeekDay,
+  WeekNumbering
+} from './hooks/useDateRangePicker';
+export type { CalendarMonth, CalendarWeek, UseCalendarGridOptions } from './hooks/useCalendarGrid';
+export type { Holiday, HolidayProvider, HolidayRule } from './holidays';
+export type { Preset, PresetOptions, PresetPeriod } from './presets';
+export type {
+  EpochRange,
+  IsoDateRange,
+  PlainDate,
+  PlainDateRange,
+  RangeValueTypes,
+  ValueAdapterOptions,
+  ValueFormat
+} from './valueAdapters';
+export type { PopoverPlacement } from './hooks/usePopoverPosition';
+export type {
+  DateRangePickerHandle,
+  DayCellProps,
+  DayMetadata
+} from './components/DateRangePicker';
 export { default as DateRangePicker } from './components/DateRangePicker';
+export { default as useDateRangePicker } from './hooks/useDateRangePicker';
+export { default as useCalendarGrid } from './hooks/useCalendarGrid';
+export { createHolidayCalendar, holidayCalendars } from './holidays';
+export { lastNBusinessDays, lastNDays, periodToDate, previousPeriod } from './presets';
+export { fromZonedTime, isValidTimeZone, startOfTodayIn, toZonedTime } from './timeZone';
+export { getIsoValueShape, parseRangeValue, serializeRangeValue } from './valueAdapters';
@@ -0,0 +1,59 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { holidayCalendars } from './holidays';
+import { lastNBusinessDays, lastNDays, periodToDate, previousPeriod } from './presets';
+import type { DateRange } from './types';
+
+const days = (range: DateRange) =>
+  `${range.startDate?.toDateString()} - ${range.endDate?.toDateString()}`;
+
+describe('preset factories', () => {
+  // Sunday, October 18, 2026
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date(2026, 9, 18, 10));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('counts calendar days back from today', () => {
+    expect(days(lastNDays(7).range())).toBe('Mon Oct 12 2026 - Sun Oct 18 2026');
+    expect(days(lastNDays(7, { includeToday: false }).range())).toBe(
+      'Sun Oct 11 2026 - Sat Oct 17 2026'
+    );
+  });
+
+  it('skips weekends and holidays when counting business days', () => {
+    expect(days(lastNBusinessDays(5).range())).toBe('Mon Oct 12 2026 - Fri Oct 16 2026');
+    // Columbus Day, Monday October 12
+    expect(days(lastNBusinessDays(5, { holidays: holidayCalendars.US }).range())).toBe(
+      'Fri Oct 09 2026 - Fri Oct 16 2026'
+    );
+    expect(lastNBusinessDays(3).label).toBe('Last 3 business days');
+  });
+
+  it('returns the whole previous period, optionally trimmed to business days', () => {
+    expect(days(previousPeriod('week').range())).toBe('Sun Oct 11 2026 - Sat Oct 17 2026');
+    expect(days(previousPeriod('week', { weekStartsOn: 1, businessDays: true }).range())).toBe(
+      'Mon Oct 05 2026 - Fri Oct 09 2026'
+    );
+    expect(days(previousPeriod('quarter').range())).toBe('Wed Jul 01 2026 - Wed Sep 30 2026');
+  });
+
+  it('runs a period to date through today', () => {
+    expect(days(periodToDate('quarter').range())).toBe('Thu Oct 01 2026 - Sun Oct 18 2026');
+    expect(days(periodToDate('year').range())).toBe('Thu Jan 01 2026 - Sun Oct 18 2026');
+    expect(
+      periodToDate('month', { businessDays: true, includeToday: false }).date().toDateString()
+    ).toBe('Thu Oct 01 2026');
+  });
+
+  it('returns an empty range when a period has no days to date', () => {
+    // Monday, the first day of a Monday-start week
+    const range = periodToDate('week', { weekStartsOn: 1, includeToday: false }).range(
+      new Date(2026, 9, 19)
+    );
+    expect(range).toEqual({ startDate: null, endDate: null });
+  });
+});
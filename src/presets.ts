@@ -0,0 +1,200 @@
+import {
+  addDays,
+  addMonths,
+  addQuarters,
+  addWeeks,
+  addYears,
+  endOfDay,
+  endOfMonth,
+  endOfQuarter,
+  endOfWeek,
+  endOfYear,
+  format,
+  isAfter,
+  startOfDay,
+  startOfMonth,
+  startOfQuarter,
+  startOfToday,
+  startOfWeek,
+  startOfYear
+} from 'date-fns';
+import type { DateRange } from './types';
+import type { WeekDay } from './hooks/useDateRangePicker';
+import { listHolidays, type HolidayProvider } from './holidays';
+
+/**
+ * Works as an entry of both `presetRanges` and `presetDates`; `date()` is the range's start.
+ * The picker passes its `timeZone`'s today, called directly they count from local today.
+ */
+export type Preset = {
+  label: string;
+  range: (today?: Date) => DateRange;
+  date: (today?: Date) => Date;
+};
+
+export type PresetPeriod = 'week' | 'month' | 'quarter' | 'year';
+
+export type PresetOptions = {
+  /** Replaces the default English label */
+  label?: string;
+  /** Count today as the last day of the range (default `true`) */
+  includeToday?: boolean;
+  /** First day of the week for `'week'` periods, `0` = Sunday (default) */
+  weekStartsOn?: WeekDay;
+  /** Days of the week that are not business days (default Saturday and Sunday) */
+  weekendDays?: number[];
+  /** Holidays that are not business days, e.g. `holidayCalendars.US` */
+  holidays?: HolidayProvider;
+  /** Trim a period to its first and last business day, e.g. a Monday–Friday week */
+  businessDays?: boolean;
+};
+
+const defaultWeekendDays = [0, 6];
+
+// Stops the business-day search when every day of the week is excluded
+const maxLookbackDays = 3660;
+
+const previousPeriodLabels: Record<PresetPeriod, string> = {
+  week: 'Previous week',
+  month: 'Last month',
+  quarter: 'Last quarter',
+  year: 'Last year'
+};
+
+const periodToDateLabels: Record<PresetPeriod, string> = {
+  week: 'Week to date',
+  month: 'Month to date',
+  quarter: 'Quarter to date',
+  year: 'Year to date'
+};
+
+const periodBounds = (date: Date, period: PresetPeriod, weekStartsOn: WeekDay) => {
+  switch (period) {
+    case 'week':
+      return [startOfWeek(date, { weekStartsOn }), endOfWeek(date, { weekStartsOn })];
+    case 'month':
+      return [startOfMonth(date), endOfMonth(date)];
+    case 'quarter':
+      return [startOfQuarter(date), endOfQuarter(date)];
+    case 'year':
+      return [startOfYear(date), endOfYear(date)];
+  }
+};
+
+const shiftPeriod = (date: Date, period: PresetPeriod, amount: number) => {
+  switch (period) {
+    case 'week':
+      return addWeeks(date, amount);
+    case 'month':
+      return addMonths(date, amount);
+    case 'quarter':
+      return addQuarters(date, amount);
+    case 'year':
+      return addYears(date, amount);
+  }
+};
+
+// Business-day test for one preset call; holidays are listed once per year
+const businessDayChecker = ({
+  weekendDays = defaultWeekendDays,
+  holidays
+}: Pick<PresetOptions, 'weekendDays' | 'holidays'>) => {
+  const years = new Map<number, Set<string>>();
+  return (day: Date) => {
+    if (weekendDays.includes(day.getDay())) return false;
+    if (!holidays) return true;
+    const year = day.getFullYear();
+    let keys = years.get(year);
+    if (!keys) {
+      keys = new Set(listHolidays(holidays, year).map((h) => format(h.date, 'yyyy-MM-dd')));
+      years.set(year, keys);
+    }
+    return !keys.has(format(day, 'yyyy-MM-dd'));
+  };
+};
+
+// Move the range ends inward onto business days; null when the range holds none
+const trimToBusinessDays = (
+  start: Date,
+  end: Date,
+  isBusinessDay: (day: Date) => boolean
+): DateRange | null => {
+  let first = startOfDay(start);
+  let last = startOfDay(end);
+  while (!isAfter(first, last) && !isBusinessDay(first)) first = addDays(first, 1);
+  while (!isAfter(first, last) && !isBusinessDay(last)) last = addDays(last, -1);
+  if (isAfter(first, last)) return null;
+  return { startDate: first, endDate: endOfDay(last) };
+};
+
+const lastIncludedDay = (today: Date, includeToday: boolean) =>
+  includeToday ? today : addDays(today, -1);
+
+const toPreset = (label: string, range: (today: Date) => DateRange): Preset => ({
+  label,
+  range: (today = startOfToday()) => range(today),
+  // Date presets need a date, so an empty range falls back to today
+  date: (today = startOfToday()) => range(today).startDate ?? today
+});
+
+const emptyRange: DateRange = { startDate: null, endDate: null };
+
+/** The last `n` calendar days, ending today */
+export const lastNDays = (n: number, options: PresetOptions = {}): Preset => {
+  const { label = `Last ${n} days`, includeToday = true } = options;
+  return toPreset(label, (today) => {
+    const last = lastIncludedDay(today, includeToday);
+    return { startDate: addDays(last, -(n - 1)), endDate: endOfDay(last) };
+  });
+};
+
+/**
+ * The last `n` business days, skipping `weekendDays` and `holidays`. The range runs from the
+ * earliest of them to the latest, so the weekends and holidays in between stay inside it.
+ */
+export const lastNBusinessDays = (n: number, options: PresetOptions = {}): Preset => {
+  const { label = `Last ${n} business days`, includeToday = true } = options;
+  return toPreset(label, (today) => {
+    const isBusinessDay = businessDayChecker(options);
+    let cursor = lastIncludedDay(today, includeToday);
+    let last: Date | null = null;
+    let found = 0;
+    for (let i = 0; found < n && i < maxLookbackDays; i += 1) {
+      if (isBusinessDay(cursor)) {
+        last ??= cursor;
+        found += 1;
+        if (found === n) return { startDate: cursor, endDate: endOfDay(last) };
+      }
+      cursor = addDays(cursor, -1);
+    }
+    return emptyRange;
+  });
+};
+
+/** The whole week, month, quarter or year before the current one */
+export const previousPeriod = (period: PresetPeriod, options: PresetOptions = {}): Preset => {
+  const { label = previousPeriodLabels[period], weekStartsOn = 0, businessDays = false } = options;
+  return toPreset(label, (today) => {
+    const [start, end] = periodBounds(shiftPeriod(today, period, -1), period, weekStartsOn);
+    if (!businessDays) return { startDate: start, endDate: end };
+    return trimToBusinessDays(start, end, businessDayChecker(options)) ?? emptyRange;
+  });
+};
+
+/** From the start of the current week, month, quarter or year through today */
+export const periodToDate = (period: PresetPeriod, options: PresetOptions = {}): Preset => {
+  const {
+    label = periodToDateLabels[period],
+    includeToday = true,
+    weekStartsOn = 0,
+    businessDays = false
+  } = options;
+  return toPreset(label, (today) => {
+    const [start] = periodBounds(today, period, weekStartsOn);
+    const end = endOfDay(lastIncludedDay(today, includeToday));
+    // Without today, the first day of a period has no days to date
+    if (isAfter(start, end)) return emptyRange;
+    if (!businessDays) return { startDate: start, endDate: end };
+    return trimToBusinessDays(start, end, businessDayChecker(options)) ?? emptyRange;
+  });
+};
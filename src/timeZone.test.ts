@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { fromZonedTime, isValidTimeZone, toZonedTime } from './timeZone';
+
+describe('toZonedTime', () => {
+  it("shows the zone's wall-clock time as a local date", () => {
+    const seoul = toZonedTime(new Date('2026-10-18T16:00:00Z'), 'Asia/Seoul');
+    expect(seoul.toString()).toContain('Mon Oct 19 2026 01:00:00');
+  });
+});
+
+describe('fromZonedTime', () => {
+  it('finds the instant for a wall-clock time in the zone', () => {
+    expect(fromZonedTime(new Date(2026, 9, 19), 'Asia/Seoul').toISOString()).toBe(
+      '2026-10-18T15:00:00.000Z'
+    );
+    expect(fromZonedTime(new Date(2026, 6, 1, 9), 'America/New_York').toISOString()).toBe(
+      '2026-07-01T13:00:00.000Z'
+    );
+    expect(fromZonedTime(new Date(2026, 0, 1, 9), 'America/New_York').toISOString()).toBe(
+      '2026-01-01T14:00:00.000Z'
+    );
+  });
+
+  it('resolves times around daylight-saving transitions', () => {
+    // 01:30 happens twice on November 1; the earlier offset wins
+    expect(fromZonedTime(new Date(2026, 10, 1, 1, 30), 'America/New_York').toISOString()).toBe(
+      '2026-11-01T05:30:00.000Z'
+    );
+    // 02:30 is skipped on March 8
+    expect(fromZonedTime(new Date(2026, 2, 8, 2, 30), 'America/New_York').toISOString()).toMatch(
+      /^2026-03-08T0[67]:30/
+    );
+  });
+
+  it('round-trips instants through toZonedTime', () => {
+    for (const iso of ['2026-03-08T06:59:00Z', '2026-03-08T07:00:00Z', '2026-11-01T05:30:00Z']) {
+      const zoned = toZonedTime(new Date(iso), 'America/New_York');
+      expect(fromZonedTime(zoned, 'America/New_York')).toEqual(new Date(iso));
+    }
+  });
+});
+
+describe('isValidTimeZone', () => {
+  it('accepts IANA names only', () => {
+    expect(isValidTimeZone('Europe/Berlin')).toBe(true);
+    expect(isValidTimeZone('Mars/Olympus_Mons')).toBe(false);
+  });
+});
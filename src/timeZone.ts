@@ -0,0 +1,110 @@
+import { startOfDay } from 'date-fns';
+
+// Formatting is the only zone conversion Intl offers, so offsets are read back from the parts
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timeZone: string) => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      era: 'short',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric'
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+// Timestamp whose UTC fields equal the given calendar fields, including years below 100
+const utcTimestamp = (
+  year: number,
+  month: number,
+  day: number,
+  hours: number,
+  minutes: number,
+  seconds: number,
+  ms: number
+) => {
+  const date = new Date(Date.UTC(2000, month, day, hours, minutes, seconds, ms));
+  date.setUTCFullYear(year);
+  return date.getTime();
+};
+
+// The zone's wall-clock time at an instant, encoded as a UTC timestamp
+const wallClockAt = (instant: number, timeZone: string) => {
+  const parts = getFormatter(timeZone).formatToParts(new Date(instant));
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((part) => part.type === type)?.value);
+  const era = parts.find((part) => part.type === 'era')?.value;
+  const year = era === 'BC' ? 1 - get('year') : get('year');
+  const ms = ((instant % 1000) + 1000) % 1000;
+  return utcTimestamp(
+    year,
+    get('month') - 1,
+    get('day'),
+    get('hour'),
+    get('minute'),
+    get('second'),
+    ms
+  );
+};
+
+/** Whether `timeZone` is an IANA name the runtime knows */
+export const isValidTimeZone = (timeZone: string) => {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * A local `Date` showing the wall-clock time `timeZone` has at `date`, so date-fns math and
+ * formatting on it work in that zone
+ */
+export const toZonedTime = (date: Date, timeZone: string) => {
+  const wall = new Date(wallClockAt(date.getTime(), timeZone));
+  const zoned = new Date(
+    2000,
+    wall.getUTCMonth(),
+    wall.getUTCDate(),
+    wall.getUTCHours(),
+    wall.getUTCMinutes(),
+    wall.getUTCSeconds(),
+    wall.getUTCMilliseconds()
+  );
+  zoned.setFullYear(wall.getUTCFullYear());
+  return zoned;
+};
+
+/**
+ * The instant at which `timeZone` shows the wall-clock time of the local `date`; the inverse of
+ * `toZonedTime`. A time skipped by a daylight-saving jump resolves to the offset before it.
+ */
+export const fromZonedTime = (date: Date, timeZone: string) => {
+  const wall = utcTimestamp(
+    date.getFullYear(),
+    date.getMonth(),
+    date.getDate(),
+    date.getHours(),
+    date.getMinutes(),
+    date.getSeconds(),
+    date.getMilliseconds()
+  );
+  const offsetAt = (instant: number) => wallClockAt(instant, timeZone) - instant;
+  // The offset near the wall time, corrected once in case a transition lies in between
+  const guess = wall - offsetAt(wall);
+  return new Date(wall - offsetAt(guess));
+};
+
+/** Start of the current day in `timeZone`, as a zoned wall-clock date; local time without one */
+export const startOfTodayIn = (timeZone?: string) =>
+  startOfDay(timeZone ? toZonedTime(new Date(), timeZone) : new Date());
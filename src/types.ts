@@ -2,3 +2,9 @@ export type DateRange = {
   startDate: Date | null;
   endDate: Date | null;
 };
+
+/** Calendar days as `yyyy-MM-dd` strings, with no time of day or time zone */
+export type CalendarDateRange = {
+  startDate: string | null;
+  endDate: string | null;
+};
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import {
+  getIsoValueShape,
+  parseRangeValue,
+  serializeRangeValue,
+  type RangeValueTypes,
+  type ValueFormat
+} from './valueAdapters';
+
+const roundTrip = <F extends ValueFormat>(valueFormat: F, value: RangeValueTypes[F]) => {
+  const options = getIsoValueShape(valueFormat, value);
+  return serializeRangeValue(valueFormat, parseRangeValue(valueFormat, value, options), options);
+};
+
+describe('parseRangeValue', () => {
+  it('reads an open interval end as null', () => {
+    const range = parseRangeValue('isoInterval', '2026-10-01/..');
+    expect(range.startDate?.toDateString()).toBe('Thu Oct 01 2026');
+    expect(range.endDate).toBeNull();
+  });
+
+  it('reads a single-date interval as a one-day range', () => {
+    const range = parseRangeValue('isoInterval', '2026-10-01');
+    expect(range.startDate).toEqual(new Date(2026, 9, 1));
+    expect(range.endDate).toEqual(new Date(2026, 9, 1));
+  });
+
+  it('moves ISO strings with an offset into the time zone', () => {
+    const range = parseRangeValue(
+      'isoDate',
+      { startDate: '2026-10-01T00:30:00Z', endDate: null },
+      { timeZone: 'Asia/Seoul' }
+    );
+    expect(range.startDate).toEqual(new Date(2026, 9, 1, 9, 30));
+  });
+});
+
+describe('serializeRangeValue', () => {
+  it('writes an empty interval as an empty string', () => {
+    expect(serializeRangeValue('isoInterval', { startDate: null, endDate: null })).toBe('');
+  });
+
+  it('writes a one-day interval as a single date only when asked', () => {
+    const day = { startDate: new Date(2026, 9, 1), endDate: new Date(2026, 9, 1) };
+    expect(serializeRangeValue('isoInterval', day)).toBe('2026-10-01/2026-10-01');
+    expect(serializeRangeValue('isoInterval', day, { singleDate: true })).toBe('2026-10-01');
+    const range = { startDate: new Date(2026, 9, 1), endDate: new Date(2026, 9, 2) };
+    expect(serializeRangeValue('isoInterval', range, { singleDate: true })).toBe(
+      '2026-10-01/2026-10-02'
+    );
+  });
+});
+
+describe('round trips', () => {
+  it.each([
+    ['isoDate', { startDate: '2026-10-01', endDate: '2026-10-07' }],
+    ['isoDate', { startDate: '2026-10-01T08:15:00', endDate: '2026-10-02T18:00:00' }],
+    ['isoDate', { startDate: '2026-10-01T08:15:00', endDate: null }],
+    ['isoInterval', '2026-10-01/2026-10-07'],
+    ['isoInterval', '2026-10-01/..'],
+    ['isoInterval', '2026-10-01'],
+    ['isoInterval', '2026-10-01T08:15:00/2026-10-01T18:00:00'],
+    ['isoInterval', ''],
+    ['isoDate', { startDate: '2026-10-05T10:30', endDate: '2026-10-06T18:45' }],
+    ['isoDate', { startDate: '2026-10-05T10:30:00.250', endDate: null }],
+    ['isoDate', { startDate: '2026-10-05T10:30:00+09:00', endDate: '2026-10-06T01:00:00+09:00' }],
+    ['isoDate', { startDate: '2026-10-05T10:30:00.250Z', endDate: '2026-10-06T23:59:59.999Z' }],
+    ['isoInterval', '2026-10-05T10:30Z/2026-10-06T10:30Z'],
+    ['isoInterval', '2026-10-05T10:30:00-05:30/..'],
+    ['plainDate', { startDate: { year: 2026, month: 2, day: 28 }, endDate: null }]
+  ] as const)('keeps %s %j unchanged', (valueFormat, value) => {
+    expect(roundTrip(valueFormat, value)).toEqual(value);
+  });
+
+  it.each(['Asia/Seoul', 'America/New_York'])('keeps offsets unchanged in %s', (timeZone) => {
+    const value = '2026-10-05T10:30:00.250Z/2026-11-01T12:00:00.000Z';
+    const options = { ...getIsoValueShape('isoInterval', value), timeZone };
+    expect(
+      serializeRangeValue('isoInterval', parseRangeValue('isoInterval', value, options), options)
+    ).toBe(value);
+  });
+
+  it('keeps epoch values in a time zone unchanged', () => {
+    const value = { startDate: 1790000000000, endDate: 1790500000000 };
+    const options = { timeZone: 'Asia/Seoul' };
+    expect(serializeRangeValue('epoch', parseRangeValue('epoch', value, options), options)).toEqual(
+      value
+    );
+  });
+});
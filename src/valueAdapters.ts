@@ -0,0 +1,183 @@
+import { format, isValid, parseISO } from 'date-fns';
+import type { DateRange } from './types';
+import { fromZonedTime, toZonedTime } from './timeZone';
+
+/** A calendar day with no time or zone; `month` is 1-12 */
+export type PlainDate = {
+  year: number;
+  month: number;
+  day: number;
+};
+
+export type IsoDateRange = { startDate: string | null; endDate: string | null };
+export type EpochRange = { startDate: number | null; endDate: number | null };
+export type PlainDateRange = { startDate: PlainDate | null; endDate: PlainDate | null };
+
+/** The `value`/`onChange` shape of each `valueFormat` */
+export type RangeValueTypes = {
+  date: DateRange;
+  /** `yyyy-MM-dd`, or `yyyy-MM-ddTHH:mm:ss` with the time picker or the time layout of the value */
+  isoDate: IsoDateRange;
+  /** `start/end` in the `isoDate` layout, `..` for a missing end and `''` when empty */
+  isoInterval: string;
+  /** Milliseconds since the Unix epoch */
+  epoch: EpochRange;
+  plainDate: PlainDateRange;
+};
+
+export type ValueFormat = keyof RangeValueTypes;
+
+export type ValueAdapterOptions = {
+  /** Zone the range's wall-clock dates belong to; instants are converted to and from it */
+  timeZone?: string;
+  /** Keep the time of day in ISO strings (the picker sets this with `timePicker`) */
+  withTime?: boolean;
+  /** Write a one-day `isoInterval` as that single date rather than `start/end` */
+  singleDate?: boolean;
+  /** date-fns pattern of the time part, e.g. `HH:mm` or `HH:mm:ss.SSS` (default `HH:mm:ss`) */
+  timeFormat?: string;
+  /** `Z` or `±hh:mm` to write instants at that offset instead of as wall-clock time */
+  offset?: string;
+};
+
+export const isoDateFormat = 'yyyy-MM-dd';
+export const isoDateTimeFormat = "yyyy-MM-dd'T'HH:mm:ss";
+
+// Open end of an ISO-8601 interval
+const openIntervalEnd = '..';
+
+// Trailing `Z` or `±hh:mm` of an ISO-8601 timestamp
+const isoOffsetPattern = /(?:z|[+-]\d{2}(?::?\d{2})?)$/i;
+
+// Time part of an ISO-8601 timestamp: hours and minutes, then optional seconds, fraction and offset
+const isoTimePattern = /T\d{2}:\d{2}(:\d{2}(?:[.,](\d+))?)?(z|[+-]\d{2}(?::?\d{2})?)?$/i;
+
+const mapRange = <T, U>(
+  range: { startDate: T | null; endDate: T | null },
+  convert: (item: T) => U | null
+) => ({
+  startDate: range.startDate === null ? null : convert(range.startDate),
+  endDate: range.endDate === null ? null : convert(range.endDate)
+});
+
+const fromInstant = (date: Date, { timeZone }: ValueAdapterOptions) =>
+  timeZone ? toZonedTime(date, timeZone) : date;
+
+const toInstant = (date: Date, { timeZone }: ValueAdapterOptions) =>
+  timeZone ? fromZonedTime(date, timeZone) : date;
+
+/** ISO-8601 text as a wall-clock date; strings with an offset name an instant in another zone */
+export const parseIsoDate = (text: string, options: ValueAdapterOptions) => {
+  const date = parseISO(text);
+  if (!isValid(date)) return null;
+  return isoOffsetPattern.test(text) ? fromInstant(date, options) : date;
+};
+
+// Minutes east of UTC written by an ISO offset such as `Z`, `+09:00` or `-0330`
+const offsetMinutes = (offset: string) => {
+  const [, sign, hours, minutes = '0'] = /^([+-])(\d{2}):?(\d{2})?$/.exec(offset) ?? [];
+  if (!sign) return 0;
+  return (sign === '-' ? -1 : 1) * (Number(hours) * 60 + Number(minutes));
+};
+
+const formatIsoDate = (date: Date, options: ValueAdapterOptions) => {
+  const { withTime, timeFormat = 'HH:mm:ss', offset } = options;
+  if (!withTime) return format(date, isoDateFormat);
+  if (offset === undefined) return format(date, `${isoDateFormat}'T'${timeFormat}`);
+  // The instant's UTC fields, moved by the offset, are the wall-clock time at that offset
+  const shifted = new Date(toInstant(date, options).getTime() + offsetMinutes(offset) * 60000);
+  const length = 'yyyy-MM-ddT'.length + timeFormat.length;
+  return `${shifted.toISOString().slice(0, length).padEnd(length, '0')}${offset}`;
+};
+
+/**
+ * The layout of an ISO `value`, so serializing it again gives the same text: the time part keeps
+ * its precision and offset, and a single-date interval stays a single date
+ */
+export const getIsoValueShape = <F extends ValueFormat>(
+  valueFormat: F,
+  value: RangeValueTypes[F]
+): Pick<ValueAdapterOptions, 'withTime' | 'singleDate' | 'timeFormat' | 'offset'> => {
+  let texts: (string | null)[];
+  let singleDate: boolean | undefined;
+  if (valueFormat === 'isoInterval') {
+    const text = value as string;
+    texts = text.split('/');
+    singleDate = text !== '' && texts.length === 1;
+  } else if (valueFormat === 'isoDate') {
+    texts = [(value as IsoDateRange).startDate, (value as IsoDateRange).endDate];
+  } else {
+    return {};
+  }
+  // The first side with a time sets the layout of both
+  const time = texts.map((text) => text && isoTimePattern.exec(text)).find(Boolean);
+  if (!time) return { singleDate };
+  const [, seconds, fraction, offset] = time;
+  const timeFormat = `HH:mm${seconds ? ':ss' : ''}${fraction ? `.${'S'.repeat(fraction.length)}` : ''}`;
+  return { withTime: true, singleDate, timeFormat, offset };
+};
+
+const parseIsoInterval = (text: string, options: ValueAdapterOptions): DateRange => {
+  if (!text) return { startDate: null, endDate: null };
+  // A single date is a one-day interval
+  const [start, end = start] = text.split('/');
+  const side = (part: string) =>
+    part === '' || part === openIntervalEnd ? null : parseIsoDate(part, options);
+  return { startDate: side(start), endDate: side(end) };
+};
+
+const formatIsoInterval = (range: DateRange, options: ValueAdapterOptions) => {
+  if (!range.startDate && !range.endDate) return '';
+  const side = (date: Date | null) => (date ? formatIsoDate(date, options) : openIntervalEnd);
+  const start = side(range.startDate);
+  const end = side(range.endDate);
+  return options.singleDate && start === end ? start : `${start}/${end}`;
+};
+
+/** Read a `value` in the given format as wall-clock dates in `options.timeZone` */
+export const parseRangeValue = <F extends ValueFormat>(
+  valueFormat: F,
+  value: RangeValueTypes[F],
+  options: ValueAdapterOptions = {}
+): DateRange => {
+  switch (valueFormat) {
+    case 'isoDate':
+      return mapRange(value as IsoDateRange, (text) => parseIsoDate(text, options));
+    case 'isoInterval':
+      return parseIsoInterval(value as string, options);
+    case 'epoch':
+      return mapRange(value as EpochRange, (ms) => fromInstant(new Date(ms), options));
+    case 'plainDate':
+      return mapRange(value as PlainDateRange, ({ year, month, day }) => {
+        const date = new Date(2000, month - 1, day);
+        date.setFullYear(year);
+        return date;
+      });
+    default:
+      return mapRange(value as DateRange, (date) => fromInstant(date, options));
+  }
+};
+
+/** Turn wall-clock dates in `options.timeZone` into a value of the given format */
+export const serializeRangeValue = <F extends ValueFormat>(
+  valueFormat: F,
+  range: DateRange,
+  options: ValueAdapterOptions = {}
+): RangeValueTypes[F] => {
+  switch (valueFormat) {
+    case 'isoDate':
+      return mapRange(range, (date) => formatIsoDate(date, options)) as RangeValueTypes[F];
+    case 'isoInterval':
+      return formatIsoInterval(range, options) as RangeValueTypes[F];
+    case 'epoch':
+      return mapRange(range, (date) => toInstant(date, options).getTime()) as RangeValueTypes[F];
+    case 'plainDate':
+      return mapRange(range, (date) => ({
+        year: date.getFullYear(),
+        month: date.getMonth() + 1,
+        day: date.getDate()
+      })) as RangeValueTypes[F];
+    default:
+      return mapRange(range, (date) => toInstant(date, options)) as RangeValueTypes[F];
+  }
+};